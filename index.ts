@@ -1,47 +1,166 @@
 #!/usr/bin/env node
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequest,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import { homedir } from "node:os";
+import { basename, join } from "node:path";
 import pMemoize from "p-memoize";
 
 // Type definitions for tool arguments
+interface WorkspaceArgs {
+  workspace?: string;
+}
+
+type ConversationType = "public_channel" | "private_channel" | "mpim" | "im";
+
 interface ListChannelsArgs {
   limit?: number;
   cursor?: string;
+  types?: ConversationType[];
+  member_only?: boolean;
+  include_archived?: boolean;
+}
+
+interface ChannelArgs {
+  channel_id: string;
+}
+
+interface CreateChannelArgs {
+  name: string;
+  is_private?: boolean;
+  topic?: string;
+  purpose?: string;
+}
+
+interface InviteToChannelArgs extends ChannelArgs {
+  users: string[];
+}
+
+interface RemoveFromChannelArgs extends ChannelArgs {
+  user_id: string;
+}
+
+interface SetChannelTopicArgs extends ChannelArgs {
+  topic: string;
+}
+
+interface SetChannelPurposeArgs extends ChannelArgs {
+  purpose: string;
+}
+
+interface RenameChannelArgs extends ChannelArgs {
+  name: string;
+}
+
+interface GetChannelMembersArgs extends ChannelArgs {
+  limit?: number;
+  cursor?: string;
 }
 
-interface PostMessageArgs {
+interface ComposeMessageArgs {
+  blocks?: unknown;
+  text_format?: "mrkdwn" | "markdown";
+  expand_mentions?: boolean;
+  broadcast_mentions?: boolean;
+  unfurl_links?: boolean;
+  unfurl_media?: boolean;
+}
+
+interface PostMessageArgs extends ComposeMessageArgs {
   channel_id: string;
   text: string;
 }
 
-interface ReplyToThreadArgs {
+interface SendDmArgs extends ComposeMessageArgs {
+  users: string[];
+  text: string;
+}
+
+interface GetDmHistoryArgs {
+  users: string[];
+  limit?: number;
+  oldest?: string;
+  latest?: string;
+  cursor?: string;
+  format?: OutputFormat;
+}
+
+interface ReplyToThreadArgs extends ComposeMessageArgs {
   channel_id: string;
-  thread_ts: string;
+  thread_ts?: string;
   text: string;
+  reply_broadcast?: boolean;
 }
 
 interface AddReactionArgs {
   channel_id: string;
-  timestamp: string;
+  timestamp?: string;
   reaction: string;
 }
 
+interface RemoveReactionArgs extends AddReactionArgs {}
+
+interface GetReactionsArgs {
+  channel_id: string;
+  timestamp?: string;
+}
+
+interface ListReactionsArgs {
+  user_id?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+interface ReactionStatsArgs {
+  channel_id: string;
+  oldest?: string;
+  latest?: string;
+  max_messages?: number;
+  include_replies?: boolean;
+  reaction?: string;
+  top?: number;
+}
+
 interface GetChannelHistoryArgs {
   channel_id: string;
   limit?: number;
+  oldest?: string;
+  latest?: string;
+  inclusive?: boolean;
+  cursor?: string;
+  auto_paginate?: boolean;
+  max_messages?: number;
+  include_replies?: boolean;
+  format?: OutputFormat;
 }
 
 interface GetThreadRepliesArgs {
   channel_id: string;
-  thread_ts: string;
+  thread_ts?: string;
   limit?: number;
   cursor?: string;
+  format?: OutputFormat;
 }
 
 interface GetUsersArgs {
@@ -53,19 +172,192 @@ interface GetUserProfileArgs {
   user_id: string;
 }
 
-interface SearchMessagesArgs {
-  query: string;
+interface UpdateMessageArgs extends ComposeMessageArgs {
+  channel_id: string;
+  timestamp?: string;
+  text: string;
+}
+
+interface DeleteMessageArgs {
+  channel_id: string;
+  timestamp?: string;
+}
+
+interface ScheduleMessageArgs extends ComposeMessageArgs {
+  channel_id: string;
+  text: string;
+  post_at: string;
+  thread_ts?: string;
+  reply_broadcast?: boolean;
+}
+
+interface ListScheduledMessagesArgs {
+  channel_id?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+interface DeleteScheduledMessageArgs {
+  channel_id: string;
+  scheduled_message_id: string;
+}
+
+interface ClearCacheArgs {
+  kind?: "users" | "channels" | "messages" | "all";
+  id?: string;
+  warm?: boolean;
+}
+
+interface LocalSearchArgs {
+  query?: string;
+  from_user?: string;
+  in_channel?: string;
+  after?: string;
+  before?: string;
+  count?: number;
+  sort?: "score" | "timestamp";
+  format?: OutputFormat;
+}
+
+interface DigestArgs {
+  channels: string[];
+  oldest?: string;
+  latest?: string;
+  max_messages?: number;
+  token_budget?: number;
+}
+
+type InboxKind = "mention" | "dm" | "thread_reply";
+
+interface GetInboxArgs {
+  kinds?: InboxKind[];
+  limit?: number;
+  peek?: boolean;
+}
+
+interface ListUnreadsArgs {
+  types?: ConversationType[];
+  max_channels?: number;
+  include_threads?: boolean;
+  threads_since?: string;
+  max_threads?: number;
+}
+
+interface GetUnreadMessagesArgs {
+  channel_id: string;
+  thread_ts?: string;
+  limit?: number;
+  format?: OutputFormat;
+  mark_read?: boolean;
+}
+
+interface MarkReadArgs {
+  channel_id: string;
+  ts?: string;
+}
+
+interface WaitForReplyArgs {
+  channel_id: string;
+  thread_ts?: string;
+  after?: string;
+  timeout_seconds?: number;
+}
+
+interface UploadFileArgs {
+  channel_id: string;
+  thread_ts?: string;
+  file_path?: string;
+  content?: string;
+  filename?: string;
+  title?: string;
+  initial_comment?: string;
+  snippet_type?: string;
+}
+
+type FileType = "all" | "spaces" | "snippets" | "images" | "gdocs" | "zips" | "pdfs";
+
+interface ListFilesArgs {
+  channel_id?: string;
+  user_id?: string;
+  types?: FileType[];
+  after?: string;
+  before?: string;
+  count?: number;
+  page?: number;
+}
+
+interface GetFileInfoArgs {
+  file_id: string;
+}
+
+interface DownloadFileArgs {
+  file_id: string;
+}
+
+type SearchHasFilter = "link" | "reaction" | "pin" | "file";
+
+// Structured search fields, compiled into Slack's search modifiers
+interface SearchQueryFields {
+  query?: string;
+  from_user?: string;
+  in_channel?: string;
+  with_user?: string;
+  before?: string;
+  after?: string;
+  on?: string;
+  has?: SearchHasFilter[];
+  is_thread?: boolean;
+  phrases?: string[];
+  exclude?: string[];
+}
+
+interface SearchMessagesArgs extends SearchQueryFields {
   count?: number;
   cursor?: string;
   highlight?: boolean;
   sort?: 'score' | 'timestamp';
   sort_dir?: 'asc' | 'desc';
+  format?: OutputFormat;
 }
 
 // Tool definitions
+
+// Properties shared by the tools that compose a message
+const composeMessageProperties = {
+  blocks: {
+    type: ["array", "string"],
+    description: "Block Kit blocks as an array or a JSON string. They are validated locally before sending. When blocks are given, text is used as the notification fallback.",
+  },
+  text_format: {
+    type: "string",
+    enum: ["mrkdwn", "markdown"],
+    description: "Format of text. 'mrkdwn' sends it as-is in Slack's own markup. 'markdown' converts standard Markdown (**bold**, [links](url), # headings, - lists) to mrkdwn first.",
+    default: "mrkdwn",
+  },
+  expand_mentions: {
+    type: "boolean",
+    description: "Turn @handle or @display-name in text into real user mentions",
+    default: true,
+  },
+  broadcast_mentions: {
+    type: "boolean",
+    description: "Turn @here, @channel and @everyone in text into broadcasts that notify the whole channel. Otherwise they stay plain text.",
+    default: false,
+  },
+  unfurl_links: {
+    type: "boolean",
+    description: "Show previews of linked web pages",
+  },
+  unfurl_media: {
+    type: "boolean",
+    description: "Show previews of linked media",
+  },
+};
+
 const listChannelsTool: Tool = {
   name: "slack_list_channels",
-  description: "List public channels in the workspace with pagination",
+  description:
+    "List conversations visible to the user with pagination: public and private channels, and optionally DMs and group DMs. DMs include the other participant's name.",
   inputSchema: {
     type: "object",
     properties: {
@@ -79,378 +371,4767 @@ const listChannelsTool: Tool = {
         type: "string",
         description: "Pagination cursor for next page of results",
       },
+      types: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["public_channel", "private_channel", "mpim", "im"],
+        },
+        description:
+          "Conversation types to include: public_channel, private_channel, mpim (group DMs) and im (DMs). Defaults to public and private channels.",
+      },
+      member_only: {
+        type: "boolean",
+        description: "Only return conversations the user is a member of",
+        default: false,
+      },
+      include_archived: {
+        type: "boolean",
+        description: "Include archived channels",
+        default: false,
+      },
     },
   },
 };
 
-const postMessageTool: Tool = {
-  name: "slack_post_message",
-  description: "Post a new message to a Slack channel",
+const channelIdProperty = {
+  type: "string",
+  description: "The channel: a channel ID, #channel-name or <#C123|name> mention",
+};
+
+const createChannelTool: Tool = {
+  name: "slack_create_channel",
+  description: "Create a channel, with you as its first member",
   inputSchema: {
     type: "object",
     properties: {
-      channel_id: {
+      name: {
         type: "string",
-        description: "The ID of the channel to post to",
+        description: "Name of the channel: lowercase letters, numbers, hyphens and underscores, at most 80 characters",
       },
-      text: {
+      is_private: {
+        type: "boolean",
+        description: "Create a private channel (default false)",
+        default: false,
+      },
+      topic: {
         type: "string",
-        description: "The message text to post",
+        description: "Topic to set after creating the channel",
+      },
+      purpose: {
+        type: "string",
+        description: "Purpose to set after creating the channel",
       },
     },
-    required: ["channel_id", "text"],
+    required: ["name"],
   },
 };
 
-const replyToThreadTool: Tool = {
-  name: "slack_reply_to_thread",
-  description: "Reply to a specific message thread in Slack",
+const joinChannelTool: Tool = {
+  name: "slack_join_channel",
+  description: "Join a public channel, so you can post in it",
   inputSchema: {
     type: "object",
     properties: {
-      channel_id: {
-        type: "string",
-        description: "The ID of the channel containing the thread",
-      },
-      thread_ts: {
-        type: "string",
-        description: "The timestamp of the parent message in the format '1234567890.123456'. Timestamps in the format without the period can be converted by adding the period such that 6 numbers come after it.",
-      },
-      text: {
-        type: "string",
-        description: "The reply text",
-      },
+      channel_id: channelIdProperty,
     },
-    required: ["channel_id", "thread_ts", "text"],
+    required: ["channel_id"],
   },
 };
 
-const addReactionTool: Tool = {
-  name: "slack_add_reaction",
-  description: "Add a reaction emoji to a message",
+const leaveChannelTool: Tool = {
+  name: "slack_leave_channel",
+  description: "Leave a channel. Private channels can only be rejoined by invitation.",
   inputSchema: {
     type: "object",
     properties: {
-      channel_id: {
-        type: "string",
-        description: "The ID of the channel containing the message",
+      channel_id: channelIdProperty,
+    },
+    required: ["channel_id"],
+  },
+};
+
+const inviteToChannelTool: Tool = {
+  name: "slack_invite_to_channel",
+  description: "Invite users to a channel you are a member of",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: channelIdProperty,
+      users: {
+        type: "array",
+        items: { type: "string" },
+        description: "The users to invite: user IDs, @handles, display names or emails (at most 1000)",
       },
-      timestamp: {
+    },
+    required: ["channel_id", "users"],
+  },
+};
+
+const removeFromChannelTool: Tool = {
+  name: "slack_remove_from_channel",
+  description: "Remove a user from a channel",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: channelIdProperty,
+      user_id: {
         type: "string",
-        description: "The timestamp of the message to react to",
+        description: "The user to remove: a user ID, @handle, display name or email",
       },
-      reaction: {
+    },
+    required: ["channel_id", "user_id"],
+  },
+};
+
+const setChannelTopicTool: Tool = {
+  name: "slack_set_channel_topic",
+  description: "Set the topic of a channel, shown in its header",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: channelIdProperty,
+      topic: {
         type: "string",
-        description: "The name of the emoji reaction (without ::)",
+        description: "The new topic, at most 250 characters. An empty string clears it.",
       },
     },
-    required: ["channel_id", "timestamp", "reaction"],
+    required: ["channel_id", "topic"],
   },
 };
 
-const getChannelHistoryTool: Tool = {
-  name: "slack_get_channel_history",
-  description: "Get recent messages from a channel",
+const setChannelPurposeTool: Tool = {
+  name: "slack_set_channel_purpose",
+  description: "Set the purpose of a channel, shown in its details",
   inputSchema: {
     type: "object",
     properties: {
-      channel_id: {
+      channel_id: channelIdProperty,
+      purpose: {
         type: "string",
-        description: "The ID of the channel",
-      },
-      limit: {
-        type: "number",
-        description: "Number of messages to retrieve (default 10)",
-        default: 10,
+        description: "The new purpose, at most 250 characters. An empty string clears it.",
       },
     },
+    required: ["channel_id", "purpose"],
+  },
+};
+
+const archiveChannelTool: Tool = {
+  name: "slack_archive_channel",
+  description: "Archive a channel. Its history is kept, but nobody can post in it until it is unarchived.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: channelIdProperty,
+    },
     required: ["channel_id"],
   },
 };
 
-const getThreadRepliesTool: Tool = {
-  name: "slack_get_thread_replies",
-  description: "Get a message and all replies in the message thread",
+const unarchiveChannelTool: Tool = {
+  name: "slack_unarchive_channel",
+  description: "Unarchive a channel",
   inputSchema: {
     type: "object",
     properties: {
-      channel_id: {
+      channel_id: channelIdProperty,
+    },
+    required: ["channel_id"],
+  },
+};
+
+const renameChannelTool: Tool = {
+  name: "slack_rename_channel",
+  description: "Rename a channel. Links and mentions follow the channel, but people may look for it under its old name.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: channelIdProperty,
+      name: {
         type: "string",
-        description: "The ID of the channel containing the thread",
+        description: "The new name: lowercase letters, numbers, hyphens and underscores, at most 80 characters",
       },
-      thread_ts: {
+    },
+    required: ["channel_id", "name"],
+  },
+};
+
+const getChannelMembersTool: Tool = {
+  name: "slack_get_channel_members",
+  description: "List the members of a conversation with their names",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
         type: "string",
-        description: "The timestamp of the parent message in the format '1234567890.123456'. Timestamps in the format without the period can be converted by adding the period such that 6 numbers come after it.",
+        description: "The conversation: a channel ID, #channel-name, or @user or email for their DM",
       },
       limit: {
         type: "number",
-        description: "Maximum number of messages to return (default 100, max 1000)",
+        description: "Maximum number of members to return (default 100, max 1000)",
         default: 100,
       },
       cursor: {
         type: "string",
-        description: "Pagination cursor for next page of results. Use response_metadata.next_cursor from previous call.",
+        description: "Pagination cursor for next page of results",
       },
     },
-    required: ["channel_id", "thread_ts"],
+    required: ["channel_id"],
   },
 };
 
-const getUsersTool: Tool = {
-  name: "slack_get_users",
-  description:
-    "Get a list of all users in the workspace with their basic profile information",
+const postMessageTool: Tool = {
+  name: "slack_post_message",
+  description: "Post a new message to a Slack channel",
   inputSchema: {
     type: "object",
     properties: {
-      cursor: {
+      channel_id: {
         type: "string",
-        description: "Pagination cursor for next page of results",
+        description: "The channel to post to. Accepts a channel ID, #channel-name, @user or email (for their DM), or a message permalink.",
       },
-      limit: {
-        type: "number",
-        description: "Maximum number of users to return (default 100, max 200)",
-        default: 100,
+      text: {
+        type: "string",
+        description: "The message text to post",
       },
+      ...composeMessageProperties,
     },
+    required: ["channel_id", "text"],
   },
 };
 
-const getUserProfileTool: Tool = {
-  name: "slack_get_user_profile",
-  description: "Get detailed profile information for a specific user",
+const dmUsersProperty = {
+  type: "array",
+  items: { type: "string" },
+  description: "The people in the conversation: user IDs, @handles, display names or emails. One user for a DM, up to eight for a group DM.",
+};
+
+const sendDmTool: Tool = {
+  name: "slack_send_dm",
+  description: "Send a direct message to one or more people, opening the DM or group DM if needed. Returns the conversation ID for follow-ups.",
   inputSchema: {
     type: "object",
     properties: {
-      user_id: {
+      users: dmUsersProperty,
+      text: {
         type: "string",
-        description: "The ID of the user",
+        description: "The message text to send",
       },
+      ...composeMessageProperties,
     },
-    required: ["user_id"],
+    required: ["users", "text"],
   },
 };
 
-const searchMessagesTool: Tool = {
-  name: "slack_search_messages",
-  description: "Search for messages across the workspace",
+const getDmHistoryTool: Tool = {
+  name: "slack_get_dm_history",
+  description: "Read the DM or group DM with one or more people. Raw output lists the messages newest first, compact and markdown output oldest first.",
   inputSchema: {
     type: "object",
     properties: {
-      query: {
+      users: dmUsersProperty,
+      limit: {
+        type: "number",
+        description: "Number of messages to retrieve (default 10, max 200)",
+        default: 10,
+      },
+      oldest: {
         type: "string",
-        description: "Search query string (supports operators like from:@user, in:#channel)",
+        description: "Only return messages after this time: a Slack timestamp, an ISO 8601 date or date-time, or a relative time such as '24h'",
       },
-      count: {
-        type: "number",
-        description: "Number of results to return (default 20, max 100)",
-        default: 20,
-        maximum: 100,
+      latest: {
+        type: "string",
+        description: "Only return messages before this time, in the same formats as oldest",
       },
       cursor: {
         type: "string",
-        description: "Pagination cursor for next page of results. Use the value from messages.pagination.next_cursor in the previous response. When next_cursor is absent from the response, there are no more results.",
+        description: "Pagination cursor for next page of results",
       },
-      highlight: {
+      format: {
+        type: "string",
+        enum: ["raw", "compact", "markdown"],
+        description: "Output format: raw Slack JSON (default), or compact/markdown text lines with names resolved",
+        default: "raw",
+      },
+    },
+    required: ["users"],
+  },
+};
+
+const replyToThreadTool: Tool = {
+  name: "slack_reply_to_thread",
+  description: "Reply to a specific message thread in Slack",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel, private channel, DM or group DM containing the thread. Accepts a channel ID, #channel-name, @user or email (for their DM), or a permalink to the parent message, which also sets thread_ts.",
+      },
+      thread_ts: {
+        type: "string",
+        description: "The timestamp of the parent message, either the raw Slack ts (e.g. '1234567890.123456') or its ISO 8601 form from a *_iso field. Optional when channel_id is a message permalink.",
+      },
+      text: {
+        type: "string",
+        description: "The reply text",
+      },
+      ...composeMessageProperties,
+      reply_broadcast: {
         type: "boolean",
-        description: "Enable search term highlighting",
+        description: "Also send the reply to the channel",
         default: false,
       },
-      sort: {
+    },
+    required: ["channel_id", "text"],
+  },
+};
+
+const addReactionTool: Tool = {
+  name: "slack_add_reaction",
+  description: "Add a reaction emoji to a message",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
         type: "string",
-        enum: ["score", "timestamp"],
-        description: "Sort results by relevance score or timestamp",
+        description: "The channel containing the message. Accepts a channel ID, #channel-name, @user or email (for their DM), or a permalink to the message, which also sets timestamp.",
       },
-      sort_dir: {
+      timestamp: {
         type: "string",
-        enum: ["asc", "desc"],
-        description: "Sort direction",
+        description: "The timestamp of the message to react to, either the raw Slack ts (e.g. '1234567890.123456') or its ISO 8601 form from a *_iso field. Optional when channel_id is a message permalink.",
+      },
+      reaction: {
+        type: "string",
+        description: "The name of the emoji reaction (without ::)",
       },
     },
-    required: ["query"],
+    required: ["channel_id", "reaction"],
   },
 };
 
-class SlackClient {
-  private headers: { Authorization: string; "Content-Type": string };
-  private isUserToken: boolean;
-  private memoizedGetUser: (userId: string) => Promise<{displayName: string, username: string}>;
+const removeReactionTool: Tool = {
+  name: "slack_remove_reaction",
+  description: "Remove a reaction the user added to a message",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel containing the message. Accepts a channel ID, #channel-name, @user or email (for their DM), or a permalink to the message, which also sets timestamp.",
+      },
+      timestamp: {
+        type: "string",
+        description: "The timestamp of the message, either the raw Slack ts or its ISO 8601 form. Optional when channel_id is a message permalink.",
+      },
+      reaction: {
+        type: "string",
+        description: "The name of the emoji reaction (without ::)",
+      },
+    },
+    required: ["channel_id", "reaction"],
+  },
+};
 
-  constructor(token: string) {
-    this.headers = {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    };
-    this.isUserToken = token.startsWith('xoxp-');
-    
-    // Memoize user lookups to avoid repeated API calls
-    this.memoizedGetUser = pMemoize(async (userId: string): Promise<{displayName: string, username: string}> => {
-      try {
-        const response = await fetch(`https://slack.com/api/users.info?user=${userId}`, {
-          headers: this.headers,
-        });
-        const data = await response.json();
-        
-        if (data.ok && data.user) {
-          return {
-            displayName: data.user.profile?.display_name || data.user.real_name || data.user.name || userId,
-            username: data.user.name || userId
-          };
-        }
-        return { displayName: userId, username: userId };
-      } catch (error) {
-        console.error(`Failed to resolve user ${userId}:`, error);
-        return { displayName: userId, username: userId };
-      }
-    });
-  }
+const getReactionsTool: Tool = {
+  name: "slack_get_reactions",
+  description: "List the reactions on a message and who added each one",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel containing the message. Accepts a channel ID, #channel-name, @user or email (for their DM), or a permalink to the message, which also sets timestamp.",
+      },
+      timestamp: {
+        type: "string",
+        description: "The timestamp of the message, either the raw Slack ts or its ISO 8601 form. Optional when channel_id is a message permalink.",
+      },
+    },
+    required: ["channel_id"],
+  },
+};
 
-  private convertTimestampsToISO(obj: any): any {
-    if (obj === null || obj === undefined) {
-      return obj;
+const listReactionsTool: Tool = {
+  name: "slack_list_reactions",
+  description: "List messages a user has reacted to, most recent first",
+  inputSchema: {
+    type: "object",
+    properties: {
+      user_id: {
+        type: "string",
+        description: "The user whose reactions to list (defaults to the authenticated user). Accepts a user ID, @handle, display name or email.",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of items to return (default 20, max 100)",
+        default: 20,
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results. Use response_metadata.next_cursor from previous call.",
+      },
+    },
+  },
+};
+
+const reactionStatsTool: Tool = {
+  name: "slack_reaction_stats",
+  description: "Count reactions in a channel over a time range: totals per emoji and the most reacted messages",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel to analyse. Accepts a channel ID, #channel-name, or @user or email for their DM.",
+      },
+      oldest: {
+        type: "string",
+        description: "Only count messages after this time: a Slack ts, an ISO 8601 date or date-time, or a relative time such as 7d",
+      },
+      latest: {
+        type: "string",
+        description: "Only count messages before this time, in the same forms as oldest",
+      },
+      max_messages: {
+        type: "number",
+        description: "Maximum number of messages to scan (default 500)",
+        default: 500,
+      },
+      include_replies: {
+        type: "boolean",
+        description: "Also count reactions on thread replies",
+        default: false,
+      },
+      reaction: {
+        type: "string",
+        description: "Only count this emoji, e.g. 'white_check_mark' or a custom emoji name",
+      },
+      top: {
+        type: "number",
+        description: "Number of most reacted messages to return (default 10)",
+        default: 10,
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const getChannelHistoryTool: Tool = {
+  name: "slack_get_channel_history",
+  description: "Get messages from a channel, private channel, DM or group DM, optionally within a time range and across several pages",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel, private channel, DM or group DM. Accepts a channel ID, #channel-name, @user or email (for their DM), or a message permalink.",
+      },
+      limit: {
+        type: "number",
+        description: "Number of messages to retrieve per page (default 10, max 200). Ignored when auto_paginate is set.",
+        default: 10,
+      },
+      oldest: {
+        type: "string",
+        description: "Only return messages after this time. Accepts a Slack timestamp, an ISO 8601 date or date-time (e.g. '2024-05-01' or '2024-05-01T09:00:00.000Z'), or a relative time such as '30m', '24h' or '7d'.",
+      },
+      latest: {
+        type: "string",
+        description: "Only return messages before this time. Accepts the same formats as oldest.",
+      },
+      inclusive: {
+        type: "boolean",
+        description: "Include messages exactly at the oldest or latest time",
+        default: false,
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results. Use response_metadata.next_cursor from previous call.",
+      },
+      auto_paginate: {
+        type: "boolean",
+        description: "Fetch pages until the time range is exhausted or max_messages is reached",
+        default: false,
+      },
+      max_messages: {
+        type: "number",
+        description: "Maximum number of top-level messages to return when auto_paginate is set (default 500)",
+        default: 500,
+      },
+      include_replies: {
+        type: "boolean",
+        description: "Expand thread replies inline under their parent message as a 'replies' array",
+        default: false,
+      },
+      format: {
+        type: "string",
+        enum: ["raw", "compact", "markdown"],
+        description: "Output format. 'raw' returns the Slack API response as JSON. 'compact' and 'markdown' render one '[time] @name: text' line per message with mentions resolved and replies and reactions summarized, which uses far less context.",
+        default: "raw",
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const getThreadRepliesTool: Tool = {
+  name: "slack_get_thread_replies",
+  description: "Get a message and all replies in the message thread",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel, private channel, DM or group DM containing the thread. Accepts a channel ID, #channel-name, @user or email (for their DM), or a permalink to the parent message, which also sets thread_ts.",
+      },
+      thread_ts: {
+        type: "string",
+        description: "The timestamp of the parent message, either the raw Slack ts (e.g. '1234567890.123456') or its ISO 8601 form from a *_iso field. Optional when channel_id is a message permalink.",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of messages to return (default 100, max 1000)",
+        default: 100,
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results. Use response_metadata.next_cursor from previous call.",
+      },
+      format: {
+        type: "string",
+        enum: ["raw", "compact", "markdown"],
+        description: "Output format. 'raw' returns the Slack API response as JSON. 'compact' and 'markdown' render one '[time] @name: text' line per message with mentions resolved and replies and reactions summarized, which uses far less context.",
+        default: "raw",
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const getUsersTool: Tool = {
+  name: "slack_get_users",
+  description:
+    "Get a list of all users in the workspace with their basic profile information",
+  inputSchema: {
+    type: "object",
+    properties: {
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of users to return (default 100, max 200)",
+        default: 100,
+      },
+    },
+  },
+};
+
+const getUserProfileTool: Tool = {
+  name: "slack_get_user_profile",
+  description: "Get detailed profile information for a specific user",
+  inputSchema: {
+    type: "object",
+    properties: {
+      user_id: {
+        type: "string",
+        description: "The user. Accepts a user ID, @handle, display name or email address.",
+      },
+    },
+    required: ["user_id"],
+  },
+};
+
+const searchMessagesTool: Tool = {
+  name: "slack_search_messages",
+  description:
+    "Search for messages across the workspace. Prefer the structured fields over writing Slack's search modifiers by hand; they are compiled into a query string that is returned as compiled_query.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Free-text search terms. Combined with the structured fields below.",
+      },
+      from_user: {
+        type: "string",
+        description: "Only messages by this user. Accepts a user ID, @handle, display name or email.",
+      },
+      in_channel: {
+        type: "string",
+        description: "Only messages in this conversation. Accepts a channel ID, #channel-name, or @user or email for the DM with that user.",
+      },
+      with_user: {
+        type: "string",
+        description: "Only messages in threads and DMs with this user. Accepts the same forms as from_user.",
+      },
+      before: {
+        type: "string",
+        description: "Only messages before this day: an ISO 8601 date, a Slack ts, or a relative time such as 7d",
+      },
+      after: {
+        type: "string",
+        description: "Only messages after this day, in the same forms as before",
+      },
+      on: {
+        type: "string",
+        description: "Only messages on this day, in the same forms as before",
+      },
+      has: {
+        type: "array",
+        items: { type: "string", enum: ["link", "reaction", "pin", "file"] },
+        description: "Only messages that have all of these",
+      },
+      is_thread: {
+        type: "boolean",
+        description: "Only messages in threads",
+      },
+      phrases: {
+        type: "array",
+        items: { type: "string" },
+        description: "Exact phrases that must appear",
+      },
+      exclude: {
+        type: "array",
+        items: { type: "string" },
+        description: "Words or phrases that must not appear",
+      },
+      count: {
+        type: "number",
+        description: "Number of results to return (default 20, max 100)",
+        default: 20,
+        maximum: 100,
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results. Use the value from messages.pagination.next_cursor in the previous response. When next_cursor is absent from the response, there are no more results.",
+      },
+      highlight: {
+        type: "boolean",
+        description: "Enable search term highlighting",
+        default: false,
+      },
+      sort: {
+        type: "string",
+        enum: ["score", "timestamp"],
+        description: "Sort results by relevance score or timestamp",
+      },
+      sort_dir: {
+        type: "string",
+        enum: ["asc", "desc"],
+        description: "Sort direction",
+      },
+      format: {
+        type: "string",
+        enum: ["raw", "compact", "markdown"],
+        description: "Output format. 'raw' returns the Slack API response as JSON. 'compact' and 'markdown' render one '[time] @name: text' line per message with mentions resolved and replies and reactions summarized, which uses far less context.",
+        default: "raw",
+      },
+    },
+  },
+};
+
+const updateMessageTool: Tool = {
+  name: "slack_update_message",
+  description: "Edit the text or blocks of a message previously posted by the user",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel containing the message. Accepts a channel ID, #channel-name, @user or email (for their DM), or a permalink to the message, which also sets timestamp.",
+      },
+      timestamp: {
+        type: "string",
+        description: "The timestamp of the message to edit, either the raw Slack ts (e.g. '1234567890.123456') or its ISO 8601 form from a *_iso field. Optional when channel_id is a message permalink.",
+      },
+      text: {
+        type: "string",
+        description: "The new message text",
+      },
+      blocks: composeMessageProperties.blocks,
+      text_format: composeMessageProperties.text_format,
+      expand_mentions: composeMessageProperties.expand_mentions,
+      broadcast_mentions: composeMessageProperties.broadcast_mentions,
+    },
+    required: ["channel_id", "text"],
+  },
+};
+
+const deleteMessageTool: Tool = {
+  name: "slack_delete_message",
+  description: "Delete a message previously posted by the user",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel containing the message. Accepts a channel ID, #channel-name, @user or email (for their DM), or a permalink to the message, which also sets timestamp.",
+      },
+      timestamp: {
+        type: "string",
+        description: "The timestamp of the message to delete, either the raw Slack ts (e.g. '1234567890.123456') or its ISO 8601 form from a *_iso field. Optional when channel_id is a message permalink.",
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const scheduleMessageTool: Tool = {
+  name: "slack_schedule_message",
+  description: "Schedule a message to be posted later, optionally as a thread reply",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel to post to. Accepts a channel ID, #channel-name, @user or email (for their DM), or a message permalink, of which only the channel is used. Set thread_ts to reply in a thread.",
+      },
+      text: {
+        type: "string",
+        description: "The message text to post",
+      },
+      post_at: {
+        type: "string",
+        description: "When to post the message: an ISO 8601 date-time with a time zone offset (e.g. '2024-05-02T09:00:00+02:00'), a Unix timestamp, or a relative time such as 'in 30m' or 'in 2h'. Must be within 120 days.",
+      },
+      thread_ts: {
+        type: "string",
+        description: "Post the message as a reply to this thread. Accepts the raw Slack ts or its ISO 8601 form.",
+      },
+      reply_broadcast: {
+        type: "boolean",
+        description: "Also send the reply to the channel",
+        default: false,
+      },
+      ...composeMessageProperties,
+    },
+    required: ["channel_id", "text", "post_at"],
+  },
+};
+
+const listScheduledMessagesTool: Tool = {
+  name: "slack_list_scheduled_messages",
+  description: "List messages the user has scheduled that have not been posted yet",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "Only list messages scheduled for this channel. Accepts a channel ID, #channel-name, or @user or email for their DM.",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of scheduled messages to return (default 100)",
+        default: 100,
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results. Use response_metadata.next_cursor from previous call.",
+      },
+    },
+  },
+};
+
+const deleteScheduledMessageTool: Tool = {
+  name: "slack_delete_scheduled_message",
+  description: "Cancel a scheduled message before it is posted",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel the message is scheduled for. Accepts a channel ID, #channel-name, or @user or email for their DM.",
+      },
+      scheduled_message_id: {
+        type: "string",
+        description: "The scheduled message ID returned by slack_schedule_message or slack_list_scheduled_messages",
+      },
+    },
+    required: ["channel_id", "scheduled_message_id"],
+  },
+};
+
+const digestTool: Tool = {
+  name: "slack_digest",
+  description:
+    "Collect a catch-up digest of one or more channels over a time window: every top-level message with its thread, participants, per-thread reply counts and last activity, and unanswered questions. Trimmed to a token budget, ready to summarize.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channels: {
+        type: "array",
+        items: { type: "string" },
+        description: "Channels to include. Each accepts a channel ID, #channel-name, or @user or email for their DM.",
+      },
+      oldest: {
+        type: "string",
+        description: "Start of the window: a Slack ts, an ISO 8601 date or date-time, or a relative time such as 24h or 7d (default 24h)",
+        default: "24h",
+      },
+      latest: {
+        type: "string",
+        description: "End of the window, in the same forms as oldest (default now)",
+      },
+      max_messages: {
+        type: "number",
+        description: "Maximum number of top-level messages to collect per channel (default 200)",
+        default: 200,
+      },
+      token_budget: {
+        type: "number",
+        description: "Approximate size limit of the digest in tokens (default 8000). Long messages and the middle of long threads are trimmed first, then the oldest answered threads.",
+        default: 8000,
+      },
+    },
+    required: ["channels"],
+  },
+};
+
+const listUnreadsTool: Tool = {
+  name: "slack_list_unreads",
+  description:
+    "List your conversations with unread messages, from your read position in each, plus threads you started or replied to that have replies since your last message. Use slack_get_unread_messages to read them.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      types: {
+        type: "array",
+        items: { type: "string", enum: ["public_channel", "private_channel", "mpim", "im"] },
+        description: "Conversation types to check (default all)",
+      },
+      max_channels: {
+        type: "number",
+        description: "Maximum number of conversations to check (default 50). Each costs two API calls.",
+        default: 50,
+      },
+      include_threads: {
+        type: "boolean",
+        description: "Also check threads you take part in (default true)",
+        default: true,
+      },
+      threads_since: {
+        type: "string",
+        description: "Only check threads started after this time: a Slack ts, an ISO 8601 date or a relative time such as 7d (default 7d)",
+        default: "7d",
+      },
+      max_threads: {
+        type: "number",
+        description: "Maximum number of threads to check, most recently active first (default 20)",
+        default: 20,
+      },
+    },
+  },
+};
+
+const getUnreadMessagesTool: Tool = {
+  name: "slack_get_unread_messages",
+  description:
+    "Get the unread messages of a conversation, after your read position, oldest first. With thread_ts, get the replies in a thread since your last message there. Optionally mark the conversation as read afterwards.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The conversation: a channel ID, #channel-name, @user or email for their DM, or a message permalink",
+      },
+      thread_ts: {
+        type: "string",
+        description: "The parent message of a thread, to get its unread replies instead",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of messages to return (default 100). When there are more, the newest are returned.",
+        default: 100,
+      },
+      format: {
+        type: "string",
+        enum: ["raw", "compact", "markdown"],
+        description: "Output format: raw Slack JSON (default), or compact/markdown text lines with names resolved",
+        default: "raw",
+      },
+      mark_read: {
+        type: "boolean",
+        description: "Move your read position to the newest message returned (default false). Skipped when not every unread message fit in limit. Not available for threads, which have no read position in the Slack API.",
+        default: false,
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const markReadTool: Tool = {
+  name: "slack_mark_read",
+  description: "Move your read position in a conversation, marking the messages up to it as read. Only changes your own read state.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The conversation: a channel ID, #channel-name, @user or email for their DM, or a message permalink",
+      },
+      ts: {
+        type: "string",
+        description: "The newest message to mark as read (default the latest message, or the permalink's message)",
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const getInboxTool: Tool = {
+  name: "slack_get_inbox",
+  description:
+    "Get the messages that need your attention since the last check: mentions of you, direct messages, and replies to threads you started. Needs the events listener (SLACK_SIGNING_SECRET), only events received while it runs are seen.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      kinds: {
+        type: "array",
+        items: { type: "string", enum: ["mention", "dm", "thread_reply"] },
+        description: "Kinds of messages to return (default all)",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of messages to return, oldest first (default 50). The rest are returned by the next call.",
+        default: 50,
+      },
+      peek: {
+        type: "boolean",
+        description: "Return the messages without marking them as checked (default false)",
+        default: false,
+      },
+    },
+  },
+};
+
+const waitForReplyTool: Tool = {
+  name: "slack_wait_for_reply",
+  description:
+    "Wait until someone else replies in a thread, or until the timeout passes. Returns the first reply. Needs the events listener (SLACK_SIGNING_SECRET).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel of the thread: a channel ID, #channel-name, @user or email for their DM, or a message permalink",
+      },
+      thread_ts: {
+        type: "string",
+        description: "The timestamp of the parent message (optional with a permalink)",
+      },
+      after: {
+        type: "string",
+        description: "Only count replies newer than this ts, such as the ts of your own reply (default the time of the call)",
+      },
+      timeout_seconds: {
+        type: "number",
+        description: "How long to wait in seconds, at most 300 (default 60)",
+        default: 60,
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const uploadFileTool: Tool = {
+  name: "slack_upload_file",
+  description: "Upload a local file, or generated text such as a report or snippet, and share it in a channel or thread",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The channel to share the file in. Accepts a channel ID, #channel-name, @user or email (for their DM), or a message permalink to share it in that thread.",
+      },
+      thread_ts: {
+        type: "string",
+        description: "Share the file as a reply in this thread. Accepts the raw Slack ts or its ISO 8601 form.",
+      },
+      file_path: {
+        type: "string",
+        description: "Path of a local file to upload. Not available over the HTTP transport. Give either file_path or content.",
+      },
+      content: {
+        type: "string",
+        description: "Text to upload as the file's content, e.g. a generated report. Give either file_path or content.",
+      },
+      filename: {
+        type: "string",
+        description: "Name of the file in Slack, e.g. 'report.md'. Required with content, defaults to the name of file_path.",
+      },
+      title: {
+        type: "string",
+        description: "Title of the file (defaults to the filename)",
+      },
+      initial_comment: {
+        type: "string",
+        description: "Message text to post along with the file",
+      },
+      snippet_type: {
+        type: "string",
+        description: "Syntax highlighting for text content, e.g. 'python' or 'markdown'",
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
+const listFilesTool: Tool = {
+  name: "slack_list_files",
+  description: "List files shared in the workspace, newest first",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "Only files shared in this channel. Accepts a channel ID, #channel-name, or @user or email for their DM.",
+      },
+      user_id: {
+        type: "string",
+        description: "Only files uploaded by this user. Accepts a user ID, @handle, display name or email.",
+      },
+      types: {
+        type: "array",
+        items: { type: "string", enum: ["all", "spaces", "snippets", "images", "gdocs", "zips", "pdfs"] },
+        description: "Only files of these types (default: all)",
+      },
+      after: {
+        type: "string",
+        description: "Only files created after this time: a Slack ts, an ISO 8601 date, or a relative time such as 7d",
+      },
+      before: {
+        type: "string",
+        description: "Only files created before this time, in the same forms as after",
+      },
+      count: {
+        type: "number",
+        description: "Number of files per page (default 20, max 100)",
+        default: 20,
+      },
+      page: {
+        type: "number",
+        description: "Page number of results, starting at 1. See paging.pages in the response.",
+        default: 1,
+      },
+    },
+  },
+};
+
+const getFileInfoTool: Tool = {
+  name: "slack_get_file_info",
+  description: "Get a file's details, such as its name, type, size, uploader and where it is shared",
+  inputSchema: {
+    type: "object",
+    properties: {
+      file_id: {
+        type: "string",
+        description: "The file ID, e.g. from the files of a message in slack_get_channel_history",
+      },
+    },
+    required: ["file_id"],
+  },
+};
+
+const downloadFileTool: Tool = {
+  name: "slack_download_file",
+  description: "Read the contents of a file attached to a message. Text files are returned as text, images as image content. Other binary files are not supported.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      file_id: {
+        type: "string",
+        description: "The file ID, e.g. from the files of a message in slack_get_channel_history",
+      },
+    },
+    required: ["file_id"],
+  },
+};
+
+const listWorkspacesTool: Tool = {
+  name: "slack_list_workspaces",
+  description:
+    "List the configured workspaces with the team and user each token belongs to. For Enterprise Grid tokens the workspaces of the organization are listed too.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+};
+
+const localSearchTool: Tool = {
+  name: "slack_local_search",
+  description:
+    "Search messages in channels synced to the local index with `slack-user-mcp sync`. Works without the search:read scope, has no result cap and makes no API calls, so it is cheap to query repeatedly. Messages posted after the last sync are not included.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Words that must all appear in the message. Put exact phrases in double quotes, e.g. release \"go live\".",
+      },
+      from_user: {
+        type: "string",
+        description: "Only messages by this user, as a user ID, @handle or display name",
+      },
+      in_channel: {
+        type: "string",
+        description: "Only messages in this channel, as a channel ID or #name",
+      },
+      after: {
+        type: "string",
+        description: "Only messages after this time: a Slack ts, an ISO 8601 date or date-time, or a relative time such as 7d",
+      },
+      before: {
+        type: "string",
+        description: "Only messages before this time, in the same forms as after",
+      },
+      count: {
+        type: "number",
+        description: "Maximum number of matches to return (default 20, max 200)",
+        default: 20,
+      },
+      sort: {
+        type: "string",
+        enum: ["score", "timestamp"],
+        description: "Rank by relevance, or list the newest first",
+        default: "score",
+      },
+      format: {
+        type: "string",
+        enum: ["raw", "compact", "markdown"],
+        description: "Output format. 'raw' returns JSON. 'compact' and 'markdown' render one '[time] #channel @name: text' line per match.",
+        default: "raw",
+      },
+    },
+  },
+};
+
+const clearCacheTool: Tool = {
+  name: "slack_clear_cache",
+  description:
+    "Clear cached users, channels or messages so they are fetched from Slack again, e.g. after a user or channel was renamed",
+  inputSchema: {
+    type: "object",
+    properties: {
+      kind: {
+        type: "string",
+        enum: ["users", "channels", "messages", "all"],
+        description: "What to clear",
+        default: "all",
+      },
+      id: {
+        type: "string",
+        description: "Only clear this user or channel. For messages, clears the cached messages of this channel. Accepts the same references as user_id and channel_id.",
+      },
+      warm: {
+        type: "boolean",
+        description: "Reload the user and channel directories right away",
+        default: false,
+      },
+    },
+  },
+};
+
+// MCP resources. Each URI may add ?workspace=<name> to read from a
+// workspace other than the default.
+const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "slack://channel/{id}",
+    name: "Slack channel",
+    description: "Recent messages in a channel, private channel or DM. The ID may also be a channel name.",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "slack://thread/{channel}/{ts}",
+    name: "Slack thread",
+    description: "A thread's parent message and all its replies",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "slack://user/{id}",
+    name: "Slack user",
+    description: "A user's profile. The ID may also be a @handle or email address.",
+    mimeType: "application/json",
+  },
+];
+
+type SlackResource =
+  | { kind: "channel"; channel: string; workspace?: string }
+  | { kind: "thread"; channel: string; ts: string; workspace?: string }
+  | { kind: "user"; user: string; workspace?: string };
+
+function parseResourceUri(uri: string): SlackResource {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI "${uri}"`);
+  }
+  const workspace = url.searchParams.get("workspace") ?? undefined;
+  const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  if (url.protocol === "slack:") {
+    if (url.hostname === "channel" && parts.length === 1) {
+      return { kind: "channel", channel: parts[0], workspace };
+    }
+    if (url.hostname === "thread" && parts.length === 2) {
+      return { kind: "thread", channel: parts[0], ts: parts[1], workspace };
+    }
+    if (url.hostname === "user" && parts.length === 1) {
+      return { kind: "user", user: parts[0], workspace };
+    }
+  }
+  throw new Error(
+    `Unknown resource "${uri}". Use slack://channel/{id}, slack://thread/{channel}/{ts} or slack://user/{id}.`,
+  );
+}
+
+const DEFAULT_RESOURCE_POLL_SECONDS = 30;
+
+const DEFAULT_EVENTS_PORT = 3119;
+const MAX_BUFFERED_EVENTS = 1000;
+const MAX_EVENT_BODY_BYTES = 1024 * 1024;
+// Slack signs the request time; older requests are rejected as replays
+const MAX_EVENT_AGE_SECONDS = 5 * 60;
+const DEFAULT_INBOX_LIMIT = 50;
+const DEFAULT_WAIT_SECONDS = 60;
+const MAX_WAIT_SECONDS = 300;
+// Message subtypes a person wrote. Edits, deletions and joins are skipped.
+const INBOX_SUBTYPES = [undefined, "thread_broadcast", "file_share", "me_message", "bot_message"];
+
+// Added to every tool when the tools are listed
+const workspaceProperty = {
+  type: "string",
+  description: "Workspace name or team ID to act in, see slack_list_workspaces. Defaults to the default workspace.",
+};
+
+function withWorkspaceProperty(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, workspace: workspaceProperty },
+    },
+  };
+}
+
+// User token scopes requested by `login`, see the Setup section of the README
+const USER_SCOPES = [
+  "channels:history",
+  "channels:read",
+  "channels:write",
+  "chat:write",
+  "emoji:read",
+  "files:read",
+  "files:write",
+  "groups:history",
+  "groups:read",
+  "groups:write",
+  "im:history",
+  "im:read",
+  "im:write",
+  "mpim:history",
+  "mpim:read",
+  "mpim:write",
+  "reactions:read",
+  "reactions:write",
+  "search:read",
+  "users.profile:read",
+  "users:read",
+  "users:read.email",
+];
+
+// Scopes a tool cannot work without. Scopes only needed for some channel
+// types or inputs (DMs, lookups by email) are left out.
+const TOOL_SCOPES: Record<string, string[]> = {
+  slack_list_channels: ["channels:read", "groups:read"],
+  slack_create_channel: ["channels:write"],
+  slack_join_channel: ["channels:write"],
+  slack_leave_channel: ["channels:write"],
+  slack_invite_to_channel: ["channels:write"],
+  slack_remove_from_channel: ["channels:write"],
+  slack_set_channel_topic: ["channels:write"],
+  slack_set_channel_purpose: ["channels:write"],
+  slack_archive_channel: ["channels:write"],
+  slack_unarchive_channel: ["channels:write"],
+  slack_rename_channel: ["channels:write"],
+  slack_get_channel_members: ["channels:read"],
+  slack_post_message: ["chat:write"],
+  slack_send_dm: ["chat:write", "im:write"],
+  slack_get_dm_history: ["im:history"],
+  slack_reply_to_thread: ["chat:write"],
+  slack_add_reaction: ["reactions:write"],
+  slack_remove_reaction: ["reactions:write"],
+  slack_get_reactions: ["reactions:read"],
+  slack_list_reactions: ["reactions:read"],
+  slack_reaction_stats: ["channels:history"],
+  slack_update_message: ["chat:write"],
+  slack_delete_message: ["chat:write"],
+  slack_schedule_message: ["chat:write"],
+  slack_list_scheduled_messages: ["chat:write"],
+  slack_delete_scheduled_message: ["chat:write"],
+  slack_get_channel_history: ["channels:history"],
+  slack_get_thread_replies: ["channels:history"],
+  slack_get_users: ["users:read"],
+  slack_get_user_profile: ["users.profile:read"],
+  slack_search_messages: ["search:read"],
+  slack_digest: ["channels:history"],
+  slack_list_unreads: ["channels:read", "channels:history"],
+  slack_get_unread_messages: ["channels:history"],
+  slack_mark_read: ["channels:write"],
+  slack_upload_file: ["files:write"],
+  slack_list_files: ["files:read"],
+  slack_get_file_info: ["files:read"],
+  slack_download_file: ["files:read"],
+};
+
+// Scopes the exposed tools need that were not granted, with the tools
+// that need them
+function missingScopes(granted: string[], policy: WritePolicy): Record<string, string[]> {
+  const missing: Record<string, string[]> = {};
+  for (const [tool, scopes] of Object.entries(TOOL_SCOPES)) {
+    if ((policy.readOnly && WRITE_TOOLS.has(tool)) || (!policy.allowDestructive && DESTRUCTIVE_TOOLS.has(tool))) {
+      continue;
+    }
+    for (const scope of scopes.filter((scope) => !granted.includes(scope))) {
+      (missing[scope] ??= []).push(tool);
+    }
+  }
+  return missing;
+}
+
+// Slack rate limit tiers, see https://api.slack.com/apis/rate-limits
+type RateLimitTier = 1 | 2 | 3 | 4 | "special";
+
+const TIER_REQUESTS_PER_MINUTE: Record<RateLimitTier, number> = {
+  1: 1,
+  2: 20,
+  3: 50,
+  4: 100,
+  // chat.postMessage allows roughly one message per second per channel
+  special: 60,
+};
+
+const SLACK_METHOD_TIERS: Record<string, RateLimitTier> = {
+  "auth.teams.list": 2,
+  "oauth.v2.access": 4,
+  "auth.test": 4,
+  "chat.delete": 3,
+  "chat.deleteScheduledMessage": 3,
+  "chat.postMessage": "special",
+  "chat.scheduleMessage": 3,
+  "chat.scheduledMessages.list": 3,
+  "chat.update": 3,
+  "conversations.archive": 2,
+  "conversations.create": 2,
+  "conversations.history": 3,
+  "conversations.info": 3,
+  "conversations.invite": 3,
+  "conversations.join": 3,
+  "conversations.kick": 3,
+  "conversations.leave": 3,
+  "conversations.list": 2,
+  "conversations.mark": 3,
+  "conversations.members": 4,
+  "conversations.open": 3,
+  "conversations.rename": 2,
+  "conversations.replies": 3,
+  "conversations.setPurpose": 2,
+  "conversations.setTopic": 2,
+  "conversations.unarchive": 2,
+  "emoji.list": 2,
+  "files.completeUploadExternal": 4,
+  "files.getUploadURLExternal": 4,
+  "files.info": 4,
+  "files.list": 3,
+  "reactions.add": 3,
+  "reactions.get": 3,
+  "reactions.list": 2,
+  "reactions.remove": 2,
+  "search.messages": 2,
+  "users.conversations": 3,
+  "users.info": 4,
+  "users.list": 2,
+  "users.lookupByEmail": 3,
+  "users.profile.get": 4,
+};
+
+const DEFAULT_TIER: RateLimitTier = 3;
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Hands out request slots for a single Slack method so that bursts stay within
+// the method's per-minute budget. A 429 pauses the queue until Retry-After.
+class RateLimitQueue {
+  private recent: number[] = [];
+  private pausedUntil = 0;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private requestsPerMinute: number) {}
+
+  acquire(): Promise<void> {
+    const slot = this.tail.then(() => this.waitForSlot());
+    this.tail = slot;
+    return slot;
+  }
+
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForSlot(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.recent = this.recent.filter((time) => now - time < 60_000);
+
+      let wait = this.pausedUntil - now;
+      if (this.recent.length >= this.requestsPerMinute) {
+        wait = Math.max(wait, this.recent[0] + 60_000 - now);
+      }
+      if (wait <= 0) {
+        this.recent.push(now);
+        return;
+      }
+      await sleep(wait);
+    }
+  }
+}
+
+function retryDelay(attempt: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * 250);
+}
+
+function retryAfterDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get("retry-after"));
+  return Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : retryDelay(attempt);
+}
+
+// Slack error codes grouped by what the caller can do about them
+type SlackErrorKind =
+  | "auth"
+  | "permission"
+  | "not_found"
+  | "invalid_argument"
+  | "rate_limited"
+  | "unknown";
+
+const SLACK_ERRORS: Record<string, { kind: SlackErrorKind; hint: string }> = {
+  not_authed: {
+    kind: "auth",
+    hint: "No token was sent. Set SLACK_TOKEN to a user token starting with 'xoxp-'.",
+  },
+  invalid_auth: {
+    kind: "auth",
+    hint: "The Slack token is invalid. Check that SLACK_TOKEN was copied correctly.",
+  },
+  account_inactive: {
+    kind: "auth",
+    hint: "The token belongs to a deactivated user or workspace. Generate a new token.",
+  },
+  token_revoked: {
+    kind: "auth",
+    hint: "The token has been revoked. Reinstall the Slack app and update SLACK_TOKEN.",
+  },
+  token_expired: {
+    kind: "auth",
+    hint: "The token has expired and could not be refreshed. Run `slack-user-mcp login` again.",
+  },
+  invalid_refresh_token: {
+    kind: "auth",
+    hint: "The stored refresh token is no longer valid. Run `slack-user-mcp login` again.",
+  },
+  invalid_code: {
+    kind: "auth",
+    hint: "The authorization code is invalid or was already used. Run `slack-user-mcp login` again.",
+  },
+  bad_redirect_uri: {
+    kind: "invalid_argument",
+    hint: "Add the redirect URI to \"Redirect URLs\" in your Slack app's OAuth & Permissions page, or set SLACK_OAUTH_REDIRECT_URI to one that is listed.",
+  },
+  invalid_client_id: {
+    kind: "auth",
+    hint: "SLACK_CLIENT_ID does not match a Slack app. Copy it from the app's Basic Information page.",
+  },
+  bad_client_secret: {
+    kind: "auth",
+    hint: "SLACK_CLIENT_SECRET is wrong. Copy it from the app's Basic Information page.",
+  },
+  not_allowed_token_type: {
+    kind: "permission",
+    hint: "This method does not accept this kind of token. Use a User OAuth Token starting with 'xoxp-'.",
+  },
+  no_permission: {
+    kind: "permission",
+    hint: "The user does not have permission to do this in the workspace.",
+  },
+  restricted_action: {
+    kind: "permission",
+    hint: "A workspace preference prevents the user from doing this.",
+  },
+  not_in_channel: {
+    kind: "permission",
+    hint: "The user is not a member of this channel. Join it with slack_join_channel, or ask a member for an invitation if it is private.",
+  },
+  method_not_supported_for_channel_type: {
+    kind: "invalid_argument",
+    hint: "This action is not available for this kind of conversation, e.g. joining a private channel or archiving a DM.",
+  },
+  cant_archive_general: {
+    kind: "permission",
+    hint: "The workspace's general channel cannot be archived.",
+  },
+  cant_leave_general: {
+    kind: "permission",
+    hint: "Nobody can leave the workspace's general channel.",
+  },
+  cant_kick_self: {
+    kind: "invalid_argument",
+    hint: "Use slack_leave_channel to leave a channel yourself.",
+  },
+  cant_invite_self: {
+    kind: "invalid_argument",
+    hint: "You cannot invite yourself. Use slack_join_channel to join a public channel.",
+  },
+  is_archived: {
+    kind: "permission",
+    hint: "The channel is archived and cannot be modified.",
+  },
+  channel_not_found: {
+    kind: "not_found",
+    hint: "Check the channel ID. Use slack_list_channels to find valid IDs, and make sure the user can see the channel.",
+  },
+  thread_not_found: {
+    kind: "not_found",
+    hint: "No thread exists at this timestamp. Check thread_ts and the channel.",
+  },
+  message_not_found: {
+    kind: "not_found",
+    hint: "No message exists at this timestamp. Check the timestamp and the channel.",
+  },
+  user_not_found: {
+    kind: "not_found",
+    hint: "Check the user ID. Use slack_get_users to find valid IDs.",
+  },
+  too_many_users: {
+    kind: "invalid_argument",
+    hint: "A group DM can have at most eight other people. Create a private channel instead.",
+  },
+  users_not_found: {
+    kind: "not_found",
+    hint: "Check the user IDs. Use slack_get_users to find valid IDs.",
+  },
+  invalid_cursor: {
+    kind: "invalid_argument",
+    hint: "The pagination cursor is invalid or expired. Start again without a cursor.",
+  },
+  invalid_ts_latest: {
+    kind: "invalid_argument",
+    hint: "The latest timestamp is not a valid Slack timestamp.",
+  },
+  invalid_ts_oldest: {
+    kind: "invalid_argument",
+    hint: "The oldest timestamp is not a valid Slack timestamp.",
+  },
+  invalid_timestamp: {
+    kind: "invalid_argument",
+    hint: "The timestamp is not a valid Slack timestamp.",
+  },
+  invalid_name: {
+    kind: "invalid_argument",
+    hint: "The name is not valid. Pass emoji names without colons, e.g. 'thumbsup'.",
+  },
+  invalid_name_specials: {
+    kind: "invalid_argument",
+    hint: "Channel names may only contain lowercase letters, numbers, hyphens and underscores.",
+  },
+  invalid_name_maxlength: {
+    kind: "invalid_argument",
+    hint: "Channel names can be at most 80 characters long.",
+  },
+  invalid_name_required: {
+    kind: "invalid_argument",
+    hint: "A channel name is required.",
+  },
+  name_taken: {
+    kind: "invalid_argument",
+    hint: "A channel with this name already exists, possibly archived or private. Pick another name.",
+  },
+  already_in_channel: {
+    kind: "invalid_argument",
+    hint: "The user is already a member of the channel.",
+  },
+  already_archived: {
+    kind: "invalid_argument",
+    hint: "The channel is already archived.",
+  },
+  not_archived: {
+    kind: "invalid_argument",
+    hint: "The channel is not archived.",
+  },
+  already_reacted: {
+    kind: "invalid_argument",
+    hint: "The user has already added this reaction to the message.",
+  },
+  no_reaction: {
+    kind: "invalid_argument",
+    hint: "The user has not added this reaction to the message. Use slack_get_reactions to see the reactions.",
+  },
+  too_many_reactions: {
+    kind: "invalid_argument",
+    hint: "The message already has the maximum number of reactions.",
+  },
+  no_text: {
+    kind: "invalid_argument",
+    hint: "The message text is empty.",
+  },
+  msg_too_long: {
+    kind: "invalid_argument",
+    hint: "The message text is too long. Split it into several messages.",
+  },
+  file_not_found: {
+    kind: "not_found",
+    hint: "Check the file ID. Use slack_list_files to find files, and make sure the user can see a channel the file is shared in.",
+  },
+  file_deleted: {
+    kind: "not_found",
+    hint: "The file has been deleted.",
+  },
+  ratelimited: {
+    kind: "rate_limited",
+    hint: "Slack is rate limiting this method. Wait a minute before trying again.",
+  },
+};
+
+// A Slack Web API call that came back with `ok: false`
+class SlackApiError extends Error {
+  readonly kind: SlackErrorKind;
+  readonly hint?: string;
+
+  constructor(
+    readonly method: string,
+    readonly code: string,
+    readonly needed?: string,
+    readonly provided?: string,
+  ) {
+    super(`Slack API ${method} failed: ${code}`);
+    this.name = "SlackApiError";
+
+    if (code === "missing_scope") {
+      this.kind = "permission";
+      this.hint = needed
+        ? `The token is missing the '${needed}' scope. Add it under "User Token Scopes" in your Slack app's OAuth & Permissions page, then reinstall the app and update SLACK_TOKEN.`
+        : "The token is missing a required scope. Check the scopes listed in the README and reinstall the app.";
+    } else {
+      this.kind = SLACK_ERRORS[code]?.kind ?? "unknown";
+      this.hint = SLACK_ERRORS[code]?.hint;
+    }
+  }
+
+  static fromResponse(method: string, data: any): SlackApiError {
+    return new SlackApiError(
+      method,
+      String(data.error ?? "unknown_error"),
+      data.needed,
+      data.provided,
+    );
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      kind: this.kind,
+      hint: this.hint,
+      needed_scope: this.needed,
+      provided_scopes: this.provided,
+    };
+  }
+}
+
+const RELATIVE_TIME_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+function isIsoTimestamp(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}/.test(value.trim()) && !Number.isNaN(Date.parse(value));
+}
+
+// Normalizes a Slack ts ("1234567890.123456"), a ts with the period missing
+// ("1234567890123456"), whole seconds, or an ISO 8601 date or date-time (as
+// emitted in the *_iso fields) into a Slack ts.
+function normalizeTs(value: string): string {
+  const trimmed = value.trim();
+
+  if (/^\d+\.\d+$/.test(trimmed)) {
+    return trimmed;
+  }
+  if (/^\d{16}$/.test(trimmed)) {
+    return `${trimmed.slice(0, 10)}.${trimmed.slice(10)}`;
+  }
+  if (/^\d{1,10}$/.test(trimmed)) {
+    return `${trimmed}.000000`;
+  }
+  if (isIsoTimestamp(trimmed)) {
+    return (Date.parse(trimmed) / 1000).toFixed(6);
+  }
+
+  throw new Error(
+    `Invalid timestamp "${value}". Use a Slack timestamp such as 1234567890.123456 or an ISO 8601 date-time such as 2024-05-01T09:00:00.000Z.`,
+  );
+}
+
+// Like normalizeTs, but also accepts a relative time in the past ("30m",
+// "24h", "7d") for use as oldest/latest.
+function parseTimeBound(value: string): string {
+  const relative = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(value.trim());
+  if (relative) {
+    const ms = parseFloat(relative[1]) * RELATIVE_TIME_UNITS_MS[relative[2].toLowerCase()];
+    return ((Date.now() - ms) / 1000).toFixed(6);
+  }
+
+  try {
+    return normalizeTs(value);
+  } catch {
+    throw new Error(
+      `Invalid time "${value}". Use a Slack timestamp, an ISO 8601 date such as 2024-05-01 or 2024-05-01T09:00:00Z, or a relative time such as 24h or 7d.`,
+    );
+  }
+}
+
+// Search date modifiers take a day, e.g. before:2024-05-01
+function parseSearchDate(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return value.trim();
+  }
+  return new Date(Number(parseTimeBound(value)) * 1000).toISOString().slice(0, 10);
+}
+
+// Accepts "tada", ":tada:" or "+1::skin-tone-2"
+function emojiName(input: string): string {
+  return input.trim().replace(/^:/, "").replace(/:$/, "");
+}
+
+// Quotes a phrase for a search query, dropping quotes Slack can't escape
+function quoteSearchPhrase(phrase: string): string {
+  const cleaned = phrase.replace(/"/g, "").trim();
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+// Larger files are refused by slack_download_file to keep responses small
+const MAX_DOWNLOAD_BYTES = 5 * 1024 * 1024;
+
+const TEXT_MIMETYPES = [
+  "application/json",
+  "application/javascript",
+  "application/x-javascript",
+  "application/xml",
+  "application/x-yaml",
+  "application/x-sh",
+  "application/sql",
+];
+
+// Image types that can be returned as MCP image content
+const IMAGE_MIMETYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+function isTextFile(file: any): boolean {
+  const mimetype = String(file.mimetype ?? "").split(";")[0];
+  return (
+    file.mode === "snippet" ||
+    mimetype.startsWith("text/") ||
+    mimetype.endsWith("+json") ||
+    mimetype.endsWith("+xml") ||
+    TEXT_MIMETYPES.includes(mimetype)
+  );
+}
+
+// Slack only accepts scheduled messages up to 120 days ahead
+const MAX_SCHEDULE_AHEAD_MS = 120 * 24 * 60 * 60 * 1000;
+
+// Parses a point in the future: a Unix timestamp, an ISO 8601 date-time, or
+// a relative time ("in 30m", "+2h"). Returns whole Unix seconds.
+function parsePostAt(value: string): number {
+  const trimmed = value.trim();
+  let time: number;
+
+  const relative = /^(?:in\s+|\+)(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(trimmed);
+  if (relative) {
+    time = Date.now() + parseFloat(relative[1]) * RELATIVE_TIME_UNITS_MS[relative[2].toLowerCase()];
+  } else if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    time = parseFloat(trimmed) * 1000;
+  } else if (isIsoTimestamp(trimmed)) {
+    time = Date.parse(trimmed);
+  } else {
+    throw new Error(
+      `Invalid post_at "${value}". Use an ISO 8601 date-time such as 2024-05-02T09:00:00+02:00, a Unix timestamp, or a relative time such as "in 2h".`,
+    );
+  }
+
+  if (time <= Date.now()) {
+    throw new Error(`post_at "${value}" is in the past`);
+  }
+  if (time - Date.now() > MAX_SCHEDULE_AHEAD_MS) {
+    throw new Error(`post_at "${value}" is more than 120 days ahead`);
+  }
+  return Math.floor(time / 1000);
+}
+
+interface ChannelHistoryOptions {
+  oldest?: string;
+  latest?: string;
+  inclusive?: boolean;
+  cursor?: string;
+  // Keep fetching pages until the history is exhausted or maxMessages is reached
+  autoPaginate?: boolean;
+  maxMessages?: number;
+  // Attach each thread's replies to its parent message as `replies`
+  includeReplies?: boolean;
+}
+
+const DEFAULT_HISTORY_MESSAGE_BUDGET = 500;
+
+const DEFAULT_UNREAD_CHANNELS = 50;
+const DEFAULT_UNREAD_THREAD_WINDOW = "7d";
+const DEFAULT_UNREAD_THREADS = 20;
+const DEFAULT_UNREAD_MESSAGES = 100;
+// conversations.info reports this when the user has never read a conversation
+const NEVER_READ_TS = "0000000000.000000";
+
+const DEFAULT_DIGEST_WINDOW = "24h";
+const DEFAULT_DIGEST_MESSAGES = 200;
+const DEFAULT_DIGEST_TOKEN_BUDGET = 8000;
+// Rough size of a token in characters of JSON, for the digest budget
+const CHARS_PER_TOKEN = 4;
+// Replies kept at the start and end of a long thread when trimming
+const DIGEST_THREAD_HEAD = 1;
+const DIGEST_THREAD_TAIL = 3;
+
+// Reactions that mark a question as answered
+const RESOLVED_REACTIONS = ["white_check_mark", "heavy_check_mark", "ballot_box_with_check"];
+
+interface DigestMessage {
+  ts: string;
+  ts_iso: string;
+  user?: string;
+  user_name: string;
+  text: string;
+}
+
+interface DigestThread extends DigestMessage {
+  reply_count: number;
+  last_activity_ts: string;
+  last_activity_iso: string;
+  participants: string[];
+  reactions?: string[];
+  // Set for questions without a reply, or whose thread has no check mark
+  unresolved?: "no_reply" | "no_check_mark";
+  replies: DigestMessage[];
+  omitted_replies?: number;
+}
+
+interface DigestChannel {
+  id: string;
+  name?: string;
+  message_count: number;
+  participants: { id: string; name: string; messages: number }[];
+  threads: DigestThread[];
+  has_more: boolean;
+  omitted_threads?: number;
+}
+
+function truncateText(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / CHARS_PER_TOKEN);
+}
+
+type OutputFormat = "raw" | "compact" | "markdown";
+
+// "2024-05-01 09:00" in UTC
+function formatMessageTime(ts: string): string {
+  return new Date(parseFloat(ts) * 1000).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function unescapeSlackText(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+// Local Block Kit validation, following the limits documented at
+// https://api.slack.com/reference/block-kit/blocks
+const MAX_BLOCKS = 50;
+
+const TEXT_OBJECT_TYPES = ["plain_text", "mrkdwn"];
+
+const BLOCK_ELEMENT_TYPES = [
+  "button",
+  "checkboxes",
+  "datepicker",
+  "datetimepicker",
+  "email_text_input",
+  "image",
+  "multi_static_select",
+  "multi_external_select",
+  "multi_users_select",
+  "multi_conversations_select",
+  "multi_channels_select",
+  "number_input",
+  "overflow",
+  "plain_text_input",
+  "radio_buttons",
+  "rich_text_input",
+  "static_select",
+  "external_select",
+  "users_select",
+  "conversations_select",
+  "channels_select",
+  "timepicker",
+  "url_text_input",
+  "workflow_button",
+];
+
+function validateTextObject(
+  value: any,
+  path: string,
+  errors: string[],
+  { maxLength, plainOnly = false }: { maxLength: number; plainOnly?: boolean },
+): void {
+  if (!value || typeof value !== "object") {
+    errors.push(`${path} must be a text object`);
+    return;
+  }
+  const types = plainOnly ? ["plain_text"] : TEXT_OBJECT_TYPES;
+  if (!types.includes(value.type)) {
+    errors.push(`${path}.type must be one of ${types.join(", ")}`);
+  }
+  if (typeof value.text !== "string" || value.text.length === 0) {
+    errors.push(`${path}.text must be a non-empty string`);
+  } else if (value.text.length > maxLength) {
+    errors.push(`${path}.text must be at most ${maxLength} characters`);
+  }
+}
+
+function validateElement(value: any, path: string, errors: string[]): void {
+  if (!value || typeof value !== "object" || !BLOCK_ELEMENT_TYPES.includes(value.type)) {
+    errors.push(`${path}.type must be a block element type (${BLOCK_ELEMENT_TYPES.join(", ")})`);
+    return;
+  }
+  if (value.type === "image" && (!(value.image_url || value.slack_file) || typeof value.alt_text !== "string")) {
+    errors.push(`${path} image elements need image_url (or slack_file) and alt_text`);
+  }
+  if (value.type === "button") {
+    validateTextObject(value.text, `${path}.text`, errors, { maxLength: 75, plainOnly: true });
+  }
+}
+
+function validateElementList(
+  value: any,
+  path: string,
+  errors: string[],
+  max: number,
+  validate: (element: any, elementPath: string) => void,
+): void {
+  if (!Array.isArray(value) || value.length === 0 || value.length > max) {
+    errors.push(`${path} must be an array of 1 to ${max} items`);
+    return;
+  }
+  value.forEach((element, index) => validate(element, `${path}[${index}]`));
+}
+
+const BLOCK_VALIDATORS: Record<string, (block: any, path: string, errors: string[]) => void> = {
+  section: (block, path, errors) => {
+    if (block.text === undefined && block.fields === undefined) {
+      errors.push(`${path} needs text or fields`);
+    }
+    if (block.text !== undefined) {
+      validateTextObject(block.text, `${path}.text`, errors, { maxLength: 3000 });
+    }
+    if (block.fields !== undefined) {
+      validateElementList(block.fields, `${path}.fields`, errors, 10, (field, fieldPath) =>
+        validateTextObject(field, fieldPath, errors, { maxLength: 2000 }),
+      );
+    }
+    if (block.accessory !== undefined) {
+      validateElement(block.accessory, `${path}.accessory`, errors);
+    }
+  },
+  header: (block, path, errors) => {
+    validateTextObject(block.text, `${path}.text`, errors, { maxLength: 150, plainOnly: true });
+  },
+  divider: () => {},
+  context: (block, path, errors) => {
+    validateElementList(block.elements, `${path}.elements`, errors, 10, (element, elementPath) => {
+      if (element?.type === "image") {
+        validateElement(element, elementPath, errors);
+      } else {
+        validateTextObject(element, elementPath, errors, { maxLength: 3000 });
+      }
+    });
+  },
+  actions: (block, path, errors) => {
+    validateElementList(block.elements, `${path}.elements`, errors, 25, (element, elementPath) =>
+      validateElement(element, elementPath, errors),
+    );
+  },
+  image: (block, path, errors) => {
+    if (!block.image_url && !block.slack_file) {
+      errors.push(`${path} needs image_url or slack_file`);
+    }
+    if (typeof block.alt_text !== "string" || block.alt_text.length === 0) {
+      errors.push(`${path}.alt_text must be a non-empty string`);
+    }
+    if (block.title !== undefined) {
+      validateTextObject(block.title, `${path}.title`, errors, { maxLength: 2000, plainOnly: true });
+    }
+  },
+  input: (block, path, errors) => {
+    validateTextObject(block.label, `${path}.label`, errors, { maxLength: 2000, plainOnly: true });
+    validateElement(block.element, `${path}.element`, errors);
+  },
+  rich_text: (block, path, errors) => {
+    if (!Array.isArray(block.elements)) {
+      errors.push(`${path}.elements must be an array`);
+    }
+  },
+  markdown: (block, path, errors) => {
+    if (typeof block.text !== "string" || block.text.length === 0) {
+      errors.push(`${path}.text must be a non-empty string`);
+    }
+  },
+  video: (block, path, errors) => {
+    for (const field of ["video_url", "thumbnail_url", "alt_text"]) {
+      if (typeof block[field] !== "string") {
+        errors.push(`${path}.${field} must be a string`);
+      }
+    }
+    validateTextObject(block.title, `${path}.title`, errors, { maxLength: 200, plainOnly: true });
+  },
+};
+
+// Accepts blocks as an array or a JSON string and returns the parsed array,
+// throwing with every problem found if they are not valid Block Kit
+function parseBlocks(value: unknown): any[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  let blocks: any = value;
+  if (typeof value === "string") {
+    try {
+      blocks = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`blocks is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  // Accept the {"blocks": [...]} payload the Block Kit Builder produces
+  if (blocks && !Array.isArray(blocks) && Array.isArray(blocks.blocks)) {
+    blocks = blocks.blocks;
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(blocks) || blocks.length === 0 || blocks.length > MAX_BLOCKS) {
+    errors.push(`blocks must be an array of 1 to ${MAX_BLOCKS} blocks`);
+  } else {
+    const blockIds = new Set<string>();
+    blocks.forEach((block, index) => {
+      const path = `blocks[${index}]`;
+      const validate = BLOCK_VALIDATORS[block?.type];
+      if (!validate) {
+        errors.push(`${path}.type must be one of ${Object.keys(BLOCK_VALIDATORS).join(", ")}`);
+        return;
+      }
+      if (block.block_id !== undefined) {
+        if (typeof block.block_id !== "string" || block.block_id.length > 255) {
+          errors.push(`${path}.block_id must be a string of at most 255 characters`);
+        } else if (blockIds.has(block.block_id)) {
+          errors.push(`${path}.block_id "${block.block_id}" is used more than once`);
+        }
+        blockIds.add(block.block_id);
+      }
+      validate(block, path, errors);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid Block Kit blocks:\n- ${errors.join("\n- ")}`);
+  }
+  return blocks;
+}
+
+// Splits text into code and non-code segments so that conversions leave
+// inline code and code blocks untouched
+function mapOutsideCode(text: string, transform: (segment: string) => string): string {
+  return text
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((segment, index) => (index % 2 === 1 ? segment : transform(segment)))
+    .join("");
+}
+
+// Converts common Markdown to Slack mrkdwn
+function markdownToMrkdwn(text: string): string {
+  return mapOutsideCode(text, (segment) =>
+    segment
+      // Images and links
+      .replace(/!?\[([^\]]*)\]\(([^)\s]+)\)/g, (_, label, url) => (label ? `<${url}|${label}>` : `<${url}>`))
+      // Italic first, so that the single asterisks of converted bold text are left alone
+      .replace(/(^|[^*])\*(?!\*|\s)([^*\n]+?)\*(?!\*)/g, "$1_$2_")
+      .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `*${a ?? b}*`)
+      .replace(/~~(.+?)~~/g, "~$1~")
+      // Headings become bold lines
+      .replace(/^#{1,6}\s+(.+)$/gm, "*$1*")
+      // Bullet lists
+      .replace(/^(\s*)[-*+]\s+/gm, "$1• ")
+      // Horizontal rules
+      .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, "──────────"),
+  );
+}
+
+const MENTION_PATTERN = /(^|[\s(])@([A-Za-z0-9][\w.\-]*[\w])/g;
+
+const SPECIAL_MENTIONS: Record<string, string> = {
+  here: "<!here>",
+  channel: "<!channel>",
+  everyone: "<!everyone>",
+};
+
+interface MessageOptions {
+  blocks?: any[];
+  unfurl_links?: boolean;
+  unfurl_media?: boolean;
+  // Also post a thread reply to the channel
+  reply_broadcast?: boolean;
+}
+
+interface DirectoryEntry {
+  loadedAt: number;
+  items: Promise<any[]>;
+}
+
+interface ResolvedChannel {
+  id: string;
+  name?: string;
+  // Set when the input was a permalink to a message
+  ts?: string;
+  thread_ts?: string;
+}
+
+interface ResolvedUser {
+  id: string;
+  name?: string;
+}
+
+// Parses links like https://acme.slack.com/archives/C123/p1234567890123456?thread_ts=1234567890.000100
+function parsePermalink(value: string): ResolvedChannel | undefined {
+  const match = /^https?:\/\/[^/]+\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})(?:\?(.*))?$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const query = new URLSearchParams(match[4] ?? "");
+  return {
+    id: match[1],
+    ts: `${match[2]}.${match[3]}`,
+    thread_ts: query.get("thread_ts") ?? undefined,
+  };
+}
+
+// Adds a `resolved` field to a response for inputs that were not already IDs
+function withResolved(
+  response: any,
+  resolved: Record<string, { input: string; id: string }>,
+): any {
+  const changed = Object.fromEntries(
+    Object.entries(resolved).filter(([, value]) => value.input !== value.id),
+  );
+  return Object.keys(changed).length > 0
+    ? { ...response, resolved: changed }
+    : response;
+}
+
+// Tools that change something in Slack, hidden in read-only mode
+const WRITE_TOOLS = new Set([
+  "slack_post_message",
+  "slack_send_dm",
+  "slack_reply_to_thread",
+  "slack_add_reaction",
+  "slack_remove_reaction",
+  "slack_update_message",
+  "slack_delete_message",
+  "slack_schedule_message",
+  "slack_delete_scheduled_message",
+  "slack_upload_file",
+  "slack_create_channel",
+  "slack_join_channel",
+  "slack_leave_channel",
+  "slack_invite_to_channel",
+  "slack_remove_from_channel",
+  "slack_set_channel_topic",
+  "slack_set_channel_purpose",
+  "slack_archive_channel",
+  "slack_unarchive_channel",
+  "slack_rename_channel",
+  "slack_mark_read",
+]);
+
+// Write tools that are hard to undo, hidden unless allowDestructive is set
+const DESTRUCTIVE_TOOLS = new Set([
+  "slack_leave_channel",
+  "slack_remove_from_channel",
+  "slack_archive_channel",
+  "slack_rename_channel",
+]);
+
+// Slack methods that the write policy applies to
+const WRITE_METHODS = new Set([
+  "chat.postMessage",
+  "chat.update",
+  "chat.delete",
+  "chat.scheduleMessage",
+  "chat.deleteScheduledMessage",
+  "files.completeUploadExternal",
+  "reactions.add",
+  "reactions.remove",
+  "conversations.create",
+  "conversations.join",
+  "conversations.leave",
+  "conversations.invite",
+  "conversations.kick",
+  "conversations.setTopic",
+  "conversations.setPurpose",
+  "conversations.archive",
+  "conversations.unarchive",
+  "conversations.rename",
+  "conversations.mark",
+]);
+
+const DESTRUCTIVE_METHODS = new Set([
+  "conversations.leave",
+  "conversations.kick",
+  "conversations.archive",
+  "conversations.rename",
+]);
+
+interface WritePolicy {
+  readOnly: boolean;
+  dryRun: boolean;
+  // Channel IDs or names; when set, writes are only allowed in these channels
+  allowedChannels?: string[];
+  deniedChannels: string[];
+  // User IDs, handles or emails; checked against the members of DMs and group DMs
+  allowedUsers?: string[];
+  deniedUsers: string[];
+  maxWritesPerSession?: number;
+  // Leaving, removing members, archiving and renaming
+  allowDestructive: boolean;
+}
+
+// Writes made so far in a session, counted against maxWritesPerSession
+interface WriteCount {
+  used: number;
+}
+
+class WritePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WritePolicyError";
+  }
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function parseFlag(value: string | undefined): boolean | undefined {
+  return value === undefined || value === "" ? undefined : ["1", "true", "yes"].includes(value.toLowerCase());
+}
+
+// Reads the policy from the JSON file named by SLACK_POLICY_FILE, with
+// SLACK_* environment variables taking precedence over the file
+function loadWritePolicy(): WritePolicy {
+  let file: Partial<WritePolicy> = {};
+  if (process.env.SLACK_POLICY_FILE) {
+    try {
+      file = JSON.parse(readFileSync(process.env.SLACK_POLICY_FILE, "utf8"));
+    } catch (error) {
+      throw new Error(
+        `Could not read SLACK_POLICY_FILE ${process.env.SLACK_POLICY_FILE}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  const maxWrites = process.env.SLACK_MAX_WRITES_PER_SESSION
+    ? Number(process.env.SLACK_MAX_WRITES_PER_SESSION)
+    : file.maxWritesPerSession;
+  if (maxWrites !== undefined && !(Number.isInteger(maxWrites) && maxWrites >= 0)) {
+    throw new Error("SLACK_MAX_WRITES_PER_SESSION must be a non-negative integer");
+  }
+
+  return {
+    readOnly: parseFlag(process.env.SLACK_READ_ONLY) ?? file.readOnly ?? false,
+    dryRun: parseFlag(process.env.SLACK_DRY_RUN) ?? file.dryRun ?? false,
+    allowedChannels: parseList(process.env.SLACK_ALLOWED_CHANNELS) ?? file.allowedChannels,
+    deniedChannels: parseList(process.env.SLACK_DENIED_CHANNELS) ?? file.deniedChannels ?? [],
+    allowedUsers: parseList(process.env.SLACK_ALLOWED_USERS) ?? file.allowedUsers,
+    deniedUsers: parseList(process.env.SLACK_DENIED_USERS) ?? file.deniedUsers ?? [],
+    maxWritesPerSession: maxWrites,
+    allowDestructive: parseFlag(process.env.SLACK_ALLOW_DESTRUCTIVE) ?? file.allowDestructive ?? false,
+  };
+}
+
+// A named Slack workspace. Enterprise Grid orgs can list the same token once
+// per team ID, and GovSlack workspaces set their own API base URL.
+interface WorkspaceConfig {
+  name: string;
+  token: string | TokenSource;
+  teamId: string;
+  apiBaseUrl?: string;
+  // Persist the user, channel and message cache here
+  cacheDir?: string;
+}
+
+// Reads named workspaces from SLACK_WORKSPACES (inline JSON) or the file
+// named by SLACK_WORKSPACES_FILE, in the form
+// { "<name>": { "token": "xoxp-...", "team_id": "T...", "api_base_url"?: "..." } }.
+// SLACK_TOKEN and SLACK_TEAM_ID add a workspace named SLACK_WORKSPACE_NAME
+// (default "default").
+function loadWorkspaces(): WorkspaceConfig[] {
+  let entries: Record<string, { token?: string; team_id?: string; api_base_url?: string }> = {};
+  const source = process.env.SLACK_WORKSPACES_FILE
+    ? `SLACK_WORKSPACES_FILE ${process.env.SLACK_WORKSPACES_FILE}`
+    : "SLACK_WORKSPACES";
+  try {
+    if (process.env.SLACK_WORKSPACES_FILE) {
+      entries = JSON.parse(readFileSync(process.env.SLACK_WORKSPACES_FILE, "utf8"));
+    } else if (process.env.SLACK_WORKSPACES) {
+      entries = JSON.parse(process.env.SLACK_WORKSPACES);
+    }
+  } catch (error) {
+    throw new Error(`Could not read ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const workspaces: WorkspaceConfig[] = [];
+  for (const [name, entry] of Object.entries(entries)) {
+    if (!entry?.token || !entry.team_id) {
+      throw new Error(`Workspace "${name}" in ${source} needs a token and a team_id`);
+    }
+    workspaces.push({ name, token: entry.token, teamId: entry.team_id, apiBaseUrl: entry.api_base_url });
+  }
+
+  const token = process.env.SLACK_TOKEN || process.env.SLACK_BOT_TOKEN;
+  const teamId = process.env.SLACK_TEAM_ID;
+  if (token && teamId) {
+    workspaces.unshift({ name: process.env.SLACK_WORKSPACE_NAME || "default", token, teamId });
+  }
+
+  // Workspaces signed in with `login`, unless configured explicitly
+  const store = new CredentialStore();
+  if (store.exists()) {
+    for (const [name, credential] of Object.entries(store.load())) {
+      if (!workspaces.some((workspace) => workspace.name === name)) {
+        workspaces.push({ name, token: store.tokenSource(name), teamId: credential.team_id });
+      }
+    }
+  }
+
+  if (parseFlag(process.env.SLACK_PERSISTENT_CACHE) ?? true) {
+    for (const workspace of workspaces) {
+      workspace.cacheDir = join(dataDir(), "cache");
+    }
+  }
+  return workspaces;
+}
+
+// Hands out one SlackClient per workspace, created on first use so each
+// workspace keeps its own caches and rate limit queues. The write quota is
+// shared by all of them.
+class SlackWorkspaces {
+  private clients = new Map<string, SlackClient>();
+  private writes: WriteCount = { used: 0 };
+  readonly defaultName: string;
+
+  constructor(
+    private configs: WorkspaceConfig[],
+    private policy: WritePolicy,
+    defaultName = process.env.SLACK_DEFAULT_WORKSPACE,
+  ) {
+    this.defaultName = defaultName ? this.find(defaultName).name : configs[0].name;
+  }
+
+  private find(selector: string): WorkspaceConfig {
+    const wanted = selector.toLowerCase();
+    const config =
+      this.configs.find((candidate) => candidate.name.toLowerCase() === wanted) ??
+      this.configs.find((candidate) => candidate.teamId.toLowerCase() === wanted);
+    if (!config) {
+      throw new Error(
+        `Unknown workspace "${selector}". Configured workspaces: ${this.configs.map((candidate) => candidate.name).join(", ")}`,
+      );
+    }
+    return config;
+  }
+
+  client(selector?: string): SlackClient {
+    const config = this.find(selector || this.defaultName);
+    let client = this.clients.get(config.name);
+    if (!client) {
+      client = new SlackClient(
+        config.token,
+        config.teamId,
+        this.policy,
+        config.apiBaseUrl,
+        config.cacheDir,
+        this.writes,
+      );
+      this.clients.set(config.name, client);
+    }
+    return client;
+  }
+
+  // Warns on stderr about tokens that fail or lack scopes the exposed tools need
+  async verifyScopes(): Promise<void> {
+    for (const config of this.configs) {
+      try {
+        const granted = await this.client(config.name).getGrantedScopes();
+        if (!granted) {
+          continue;
+        }
+        const missing = Object.entries(missingScopes(granted, this.policy));
+        if (missing.length > 0) {
+          console.error(
+            `Workspace "${config.name}" is missing scopes needed by some tools: ${missing
+              .map(([scope, tools]) => `${scope} (${tools.join(", ")})`)
+              .join("; ")}. Add them under "User Token Scopes" and reinstall the app, or run \`slack-user-mcp login\` again.`,
+          );
+        }
+      } catch (error) {
+        console.error(`Could not verify the token of workspace "${config.name}":`, error);
+      }
+    }
+  }
+
+  // Lists every workspace, or only the selected one
+  async list(selector?: string): Promise<any[]> {
+    const configs = selector ? [this.find(selector)] : this.configs;
+    return Promise.all(
+      configs.map(async (config) => {
+        const entry: Record<string, unknown> = {
+          name: config.name,
+          team_id: config.teamId,
+          default: config.name === this.defaultName,
+        };
+        try {
+          const client = this.client(config.name);
+          const auth = await client.getAuthInfo();
+          Object.assign(entry, {
+            team: auth.team,
+            url: auth.url,
+            user: auth.user,
+            user_id: auth.user_id,
+            token_team_id: auth.team_id,
+          });
+          const granted = await client.getGrantedScopes();
+          if (granted) {
+            entry.missing_scopes = missingScopes(granted, this.policy);
+          }
+          if (auth.enterprise_id) {
+            entry.enterprise_id = auth.enterprise_id;
+            entry.teams = await client.getAuthTeams();
+          }
+        } catch (error) {
+          // One broken token shouldn't hide the other workspaces
+          entry.error = error instanceof SlackApiError ? error.toJSON() : { error: String(error) };
+        }
+        return entry;
+      }),
+    );
+  }
+}
+
+// Where credentials and caches are kept: SLACK_MCP_DATA_DIR, or the
+// platform's per-user data directory
+function dataDir(): string {
+  if (process.env.SLACK_MCP_DATA_DIR) {
+    return process.env.SLACK_MCP_DATA_DIR;
+  }
+  if (process.platform === "win32" && process.env.APPDATA) {
+    return join(process.env.APPDATA, "slack-user-mcp");
+  }
+  return join(process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"), "slack-user-mcp");
+}
+
+// Supplies the access token of a workspace signed in with `login`. Tokens
+// with token rotation enabled expire and are renewed with their refresh token.
+interface TokenSource {
+  token(): Promise<string>;
+  refresh(): Promise<string>;
+}
+
+interface StoredCredential {
+  team_id: string;
+  team_name: string;
+  user_id: string;
+  scopes: string[];
+  access_token: string;
+  refresh_token?: string;
+  // Epoch milliseconds, only set for rotating tokens
+  expires_at?: number;
+  // The refresh grant needs the app's credentials
+  client_id: string;
+  client_secret: string;
+}
+
+// Refresh rotating tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Calls oauth.v2.access, which takes the app's credentials as a form body
+// instead of a bearer token
+async function oauthAccess(apiBaseUrl: string, params: Record<string, string>): Promise<any> {
+  const response = await fetch(`${apiBaseUrl}/oauth.v2.access`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params),
+  });
+  if (!response.ok) {
+    throw new Error(`Slack API oauth.v2.access failed with HTTP ${response.status}`);
+  }
+  const data = await response.json();
+  if (data.ok === false) {
+    throw SlackApiError.fromResponse("oauth.v2.access", data);
+  }
+  return data;
+}
+
+// Tokens from `login`, kept in an AES-256-GCM encrypted file in the data
+// directory. The key is derived from SLACK_CREDENTIALS_KEY when set, or else
+// read from a key file next to the credentials that only the user can read.
+class CredentialStore {
+  private file: string;
+  private keyFile: string;
+  private refreshing = new Map<string, Promise<string>>();
+  // Decrypted once per process, the server is the only writer while it runs
+  private credentials?: Record<string, StoredCredential>;
+
+  constructor(
+    directory = dataDir(),
+    private apiBaseUrl: string = process.env.SLACK_API_BASE_URL || "https://slack.com/api",
+  ) {
+    this.file = join(directory, "credentials.enc");
+    this.keyFile = join(directory, "credentials.key");
+  }
+
+  exists(): boolean {
+    return existsSync(this.file);
+  }
+
+  private key(salt: Buffer): Buffer {
+    let secret = process.env.SLACK_CREDENTIALS_KEY;
+    if (!secret) {
+      if (!existsSync(this.keyFile)) {
+        writeFileSync(this.keyFile, randomBytes(32).toString("base64"), { mode: 0o600 });
+      }
+      secret = readFileSync(this.keyFile, "utf8").trim();
+    }
+    return scryptSync(secret, salt, 32);
+  }
+
+  load(): Record<string, StoredCredential> {
+    if (this.credentials) {
+      return this.credentials;
+    }
+    if (!this.exists()) {
+      return {};
+    }
+    try {
+      const sealed = JSON.parse(readFileSync(this.file, "utf8"));
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        this.key(Buffer.from(sealed.salt, "base64")),
+        Buffer.from(sealed.iv, "base64"),
+      );
+      decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(sealed.data, "base64")),
+        decipher.final(),
+      ]);
+      this.credentials = JSON.parse(plain.toString("utf8"));
+      return this.credentials!;
+    } catch (error) {
+      throw new Error(
+        `Could not decrypt ${this.file}. Check SLACK_CREDENTIALS_KEY, or run \`slack-user-mcp login\` again: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private write(credentials: Record<string, StoredCredential>): void {
+    mkdirSync(join(this.file, ".."), { recursive: true, mode: 0o700 });
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), "utf8"), cipher.final()]);
+    const sealed = {
+      version: 1,
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    // Write to a temporary file first so a crash never leaves a torn file
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    writeFileSync(temporary, JSON.stringify(sealed), { mode: 0o600 });
+    renameSync(temporary, this.file);
+    chmodSync(this.file, 0o600);
+    this.credentials = credentials;
+  }
+
+  save(name: string, credential: StoredCredential): void {
+    this.write({ ...this.load(), [name]: credential });
+  }
+
+  tokenSource(name: string): TokenSource {
+    return {
+      token: async () => {
+        const credential = this.load()[name];
+        if (!credential) {
+          throw new Error(`No stored credentials for workspace "${name}". Run \`slack-user-mcp login\`.`);
+        }
+        if (credential.expires_at && credential.expires_at - TOKEN_REFRESH_MARGIN_MS <= Date.now()) {
+          return this.refresh(name);
+        }
+        return credential.access_token;
+      },
+      refresh: () => this.refresh(name),
+    };
+  }
+
+  // Exchanges the refresh token for a new access token. Slack rotates the
+  // refresh token too, so both are stored again. Concurrent callers share
+  // one exchange because a refresh token can only be used once.
+  private refresh(name: string): Promise<string> {
+    let pending = this.refreshing.get(name);
+    if (!pending) {
+      pending = (async () => {
+        const credential = this.load()[name];
+        if (!credential?.refresh_token) {
+          throw new SlackApiError("oauth.v2.access", "token_expired");
+        }
+        const data = await oauthAccess(this.apiBaseUrl, {
+          grant_type: "refresh_token",
+          refresh_token: credential.refresh_token,
+          client_id: credential.client_id,
+          client_secret: credential.client_secret,
+        });
+        const granted = data.authed_user?.access_token ? data.authed_user : data;
+        this.save(name, {
+          ...credential,
+          access_token: granted.access_token,
+          refresh_token: granted.refresh_token ?? credential.refresh_token,
+          expires_at: granted.expires_in ? Date.now() + granted.expires_in * 1000 : undefined,
+        });
+        console.error(`Refreshed the access token for workspace "${name}"`);
+        return granted.access_token as string;
+      })();
+      this.refreshing.set(name, pending);
+      pending.then(
+        () => this.refreshing.delete(name),
+        () => this.refreshing.delete(name),
+      );
+    }
+    return pending;
+  }
+}
+
+type CacheKind = "users" | "channels" | "messages";
+
+// How long cached objects are trusted. Lookups by name reload the
+// directories when a name is not found, so a long TTL only delays renames.
+const CACHE_TTL_MS: Record<CacheKind, number> = {
+  users: 24 * 60 * 60 * 1000,
+  channels: 60 * 60 * 1000,
+  messages: 60 * 60 * 1000,
+};
+
+// Lookups that failed with a not-found error are not retried for this long
+const NEGATIVE_CACHE_TTL_MS = 15 * 60 * 1000;
+
+const CACHE_SAVE_DELAY_MS = 1000;
+
+// Messages are cached by every history, thread and unread fetch, so only
+// the most recently stored are kept
+const MAX_CACHED_MESSAGES = 5000;
+
+// How long a user lookup waits for the user directory before asking for
+// the one user
+const USER_DIRECTORY_WAIT_MS = 2000;
+
+interface CacheRecord {
+  storedAt: number;
+  // null marks a failed lookup
+  value: any;
+}
+
+interface CacheContents {
+  version: 1;
+  users: Record<string, CacheRecord>;
+  channels: Record<string, CacheRecord>;
+  // Keyed by "<channel ID>/<ts>"
+  messages: Record<string, CacheRecord>;
+  // IDs returned by the last complete users.list and conversations.list
+  directories: Partial<Record<"users" | "channels", { storedAt: number; ids: string[] }>>;
+}
+
+function emptyCache(): CacheContents {
+  return { version: 1, users: {}, channels: {}, messages: {}, directories: {} };
+}
+
+// Users, channels and messages by ID. With a file the cache is saved as JSON
+// shortly after each change and on exit, so it survives restarts.
+class SlackCache {
+  private contents: CacheContents = emptyCache();
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private file?: string) {
+    if (!file) {
+      return;
+    }
+    if (existsSync(file)) {
+      try {
+        const stored = JSON.parse(readFileSync(file, "utf8"));
+        if (stored.version === 1) {
+          this.contents = stored;
+        }
+      } catch (error) {
+        console.error(`Ignoring unreadable cache file ${file}:`, error);
+      }
+    }
+    this.prune();
+    process.on("exit", () => this.flush());
+  }
+
+  private isExpired(kind: CacheKind, record: CacheRecord): boolean {
+    const ttl = record.value === null ? NEGATIVE_CACHE_TTL_MS : CACHE_TTL_MS[kind];
+    return Date.now() - record.storedAt >= ttl;
+  }
+
+  private fresh(kind: CacheKind, key: string): CacheRecord | undefined {
+    const record = this.contents[kind][key];
+    if (!record) {
+      return undefined;
+    }
+    if (this.isExpired(kind, record)) {
+      delete this.contents[kind][key];
+      return undefined;
+    }
+    return record;
+  }
+
+  // Drops expired entries and all but the newest MAX_CACHED_MESSAGES
+  // messages, so the cache file doesn't grow without limit
+  private prune(): void {
+    for (const kind of ["users", "channels", "messages"] as CacheKind[]) {
+      for (const [key, record] of Object.entries(this.contents[kind])) {
+        if (this.isExpired(kind, record)) {
+          delete this.contents[kind][key];
+        }
+      }
+    }
+    for (const kind of ["users", "channels"] as const) {
+      const directory = this.contents.directories[kind];
+      if (directory && Date.now() - directory.storedAt >= CACHE_TTL_MS[kind]) {
+        delete this.contents.directories[kind];
+      }
+    }
+
+    const messages = Object.entries(this.contents.messages);
+    if (messages.length > MAX_CACHED_MESSAGES) {
+      messages.sort(([, a], [, b]) => b.storedAt - a.storedAt);
+      for (const [key] of messages.slice(MAX_CACHED_MESSAGES)) {
+        delete this.contents.messages[key];
+      }
+    }
+  }
+
+  get(kind: CacheKind, key: string): any {
+    return this.fresh(kind, key)?.value ?? undefined;
+  }
+
+  isMissing(kind: CacheKind, key: string): boolean {
+    return this.fresh(kind, key)?.value === null;
+  }
+
+  set(kind: CacheKind, key: string, value: any): void {
+    this.contents[kind][key] = { storedAt: Date.now(), value };
+    this.scheduleSave();
+  }
+
+  setMissing(kind: CacheKind, key: string): void {
+    this.set(kind, key, null);
+  }
+
+  setMany(kind: CacheKind, items: any[], keyOf: (item: any) => string = (item) => item.id): void {
+    const storedAt = Date.now();
+    for (const item of items) {
+      this.contents[kind][keyOf(item)] = { storedAt, value: item };
+    }
+    this.scheduleSave();
+  }
+
+  delete(kind: CacheKind, key: string): void {
+    delete this.contents[kind][key];
+    this.scheduleSave();
+  }
+
+  // The items of the last complete listing, if it is fresh and every item is still cached
+  getDirectory(kind: "users" | "channels"): any[] | undefined {
+    const directory = this.contents.directories[kind];
+    if (!directory || Date.now() - directory.storedAt >= CACHE_TTL_MS[kind]) {
+      return undefined;
+    }
+    const items = directory.ids.map((id) => this.get(kind, id));
+    return items.every((item) => item !== undefined) ? items : undefined;
+  }
+
+  setDirectory(kind: "users" | "channels", items: any[]): void {
+    this.setMany(kind, items);
+    this.contents.directories[kind] = { storedAt: Date.now(), ids: items.map((item) => item.id) };
+  }
+
+  // Removes one kind, or everything. With a key, only that user or channel,
+  // or for messages every message of that channel. Returns the number of
+  // entries removed.
+  clear(kind: CacheKind | "all", key?: string): Record<CacheKind, number> {
+    const cleared: Record<CacheKind, number> = { users: 0, channels: 0, messages: 0 };
+    const kinds: CacheKind[] = kind === "all" ? ["users", "channels", "messages"] : [kind];
+    for (const current of kinds) {
+      for (const entry of Object.keys(this.contents[current])) {
+        const matches =
+          key === undefined ||
+          (current === "messages" ? entry.startsWith(`${key}/`) : entry === key);
+        if (matches) {
+          delete this.contents[current][entry];
+          cleared[current]++;
+        }
+      }
+      if (current !== "messages" && key === undefined) {
+        delete this.contents.directories[current];
+      }
+    }
+    this.scheduleSave();
+    return cleared;
+  }
+
+  private scheduleSave(): void {
+    if (!this.file || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => this.flush(), CACHE_SAVE_DELAY_MS);
+    // Don't keep the process alive just to save the cache, exit flushes it
+    this.saveTimer.unref();
+  }
+
+  private flush(): void {
+    if (!this.file || !this.saveTimer) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    this.prune();
+    try {
+      mkdirSync(join(this.file, ".."), { recursive: true, mode: 0o700 });
+      const temporary = `${this.file}.${process.pid}.tmp`;
+      writeFileSync(temporary, JSON.stringify(this.contents), { mode: 0o600 });
+      renameSync(temporary, this.file);
+    } catch (error) {
+      console.error(`Could not save the cache to ${this.file}:`, error);
+    }
+  }
+}
+
+interface IndexedMessage {
+  ts: string;
+  thread_ts?: string;
+  user?: string;
+  user_username?: string;
+  user_display_name?: string;
+  text: string;
+  reply_count?: number;
+}
+
+interface IndexedChannel {
+  name?: string;
+  // Newest top-level message synced, the next sync starts after it
+  last_ts?: string;
+  synced_at: number;
+  messages: IndexedMessage[];
+}
+
+interface LocalIndexContents {
+  version: 1;
+  channels: Record<string, IndexedChannel>;
+}
+
+interface LocalSearchOptions {
+  from_user?: string;
+  in_channel?: string;
+  after?: string;
+  before?: string;
+  count?: number;
+  sort?: "score" | "timestamp";
+}
+
+// Lower-cased words and numbers, with Slack's HTML escaping undone
+function indexTerms(text: string): string[] {
+  return unescapeSlackText(text).toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// BM25 parameters, see https://en.wikipedia.org/wiki/Okapi_BM25
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const MAX_LOCAL_SEARCH_COUNT = 200;
+
+// Messages of synced channels in a JSON file, searched with an inverted
+// index built in memory. The file is written by `sync` and re-read by the
+// server when it changes.
+class LocalIndex {
+  private contents: LocalIndexContents = { version: 1, channels: {} };
+  private loadedMtime?: number;
+  private documents?: { channel: string; message: IndexedMessage; terms: string[] }[];
+  private postings?: Map<string, Map<number, number>>;
+
+  constructor(private file: string) {}
+
+  private reload(): void {
+    const mtime = existsSync(this.file) ? statSync(this.file).mtimeMs : undefined;
+    if (mtime === this.loadedMtime) {
+      return;
+    }
+    this.contents = mtime === undefined
+      ? { version: 1, channels: {} }
+      : JSON.parse(readFileSync(this.file, "utf8"));
+    this.loadedMtime = mtime;
+    this.documents = undefined;
+    this.postings = undefined;
+  }
+
+  channel(id: string): IndexedChannel | undefined {
+    this.reload();
+    return this.contents.channels[id];
+  }
+
+  channelIds(): string[] {
+    this.reload();
+    return Object.keys(this.contents.channels);
+  }
+
+  // Adds newly synced messages, replacing earlier copies of the same ts
+  addMessages(channelId: string, name: string | undefined, messages: IndexedMessage[], lastTs?: string): void {
+    this.reload();
+    const existing = this.contents.channels[channelId];
+    const byTs = new Map((existing?.messages ?? []).map((message) => [message.ts, message]));
+    for (const message of messages) {
+      byTs.set(message.ts, message);
+    }
+    this.contents.channels[channelId] = {
+      name: name ?? existing?.name,
+      last_ts: lastTs ?? existing?.last_ts,
+      synced_at: Date.now(),
+      messages: [...byTs.values()].sort((a, b) => Number(a.ts) - Number(b.ts)),
+    };
+
+    mkdirSync(join(this.file, ".."), { recursive: true, mode: 0o700 });
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    writeFileSync(temporary, JSON.stringify(this.contents), { mode: 0o600 });
+    renameSync(temporary, this.file);
+    this.loadedMtime = statSync(this.file).mtimeMs;
+    this.documents = undefined;
+    this.postings = undefined;
+  }
+
+  private build() {
+    if (this.documents && this.postings) {
+      return { documents: this.documents, postings: this.postings };
+    }
+    const documents = Object.entries(this.contents.channels).flatMap(([channel, entry]) =>
+      entry.messages.map((message) => ({ channel, message, terms: indexTerms(message.text) })),
+    );
+    const postings = new Map<string, Map<number, number>>();
+    documents.forEach((document, index) => {
+      for (const term of document.terms) {
+        let posting = postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          postings.set(term, posting);
+        }
+        posting.set(index, (posting.get(index) ?? 0) + 1);
+      }
+    });
+    this.documents = documents;
+    this.postings = postings;
+    return { documents, postings };
+  }
+
+  search(query: string, options: LocalSearchOptions = {}) {
+    this.reload();
+    const { documents, postings } = this.build();
+
+    const phrases = Array.from(query.matchAll(/"([^"]+)"/g), ([, phrase]) => indexTerms(phrase))
+      .filter((terms) => terms.length > 0);
+    const terms = [...new Set([...indexTerms(query.replace(/"[^"]*"/g, " ")), ...phrases.flat()])];
+
+    // Every term has to appear, so start from the rarest term's postings
+    let candidates: number[];
+    if (terms.length > 0) {
+      const lists = terms.map((term) => postings.get(term) ?? new Map<number, number>());
+      lists.sort((a, b) => a.size - b.size);
+      candidates = [...lists[0].keys()].filter((index) => lists.every((list) => list.has(index)));
+    } else {
+      candidates = documents.map((_, index) => index);
+    }
+
+    const author = options.from_user?.trim().replace(/^@/, "").toLowerCase();
+    const channel = options.in_channel?.trim().replace(/^#/, "").toLowerCase();
+    const after = options.after ? Number(parseTimeBound(options.after)) : undefined;
+    const before = options.before ? Number(parseTimeBound(options.before)) : undefined;
+
+    const averageLength =
+      documents.reduce((sum, document) => sum + document.terms.length, 0) / Math.max(documents.length, 1);
+
+    const matches = candidates
+      .filter((index) => {
+        const { channel: channelId, message, terms: documentTerms } = documents[index];
+        if (author && ![message.user, message.user_username, message.user_display_name]
+          .some((value) => value?.toLowerCase() === author)) {
+          return false;
+        }
+        if (channel && channelId.toLowerCase() !== channel &&
+          this.contents.channels[channelId].name?.toLowerCase() !== channel) {
+          return false;
+        }
+        const ts = Number(message.ts);
+        if ((after !== undefined && ts <= after) || (before !== undefined && ts >= before)) {
+          return false;
+        }
+        const text = ` ${documentTerms.join(" ")} `;
+        return phrases.every((phrase) => text.includes(` ${phrase.join(" ")} `));
+      })
+      .map((index) => {
+        let score = 0;
+        for (const term of terms) {
+          const posting = postings.get(term)!;
+          const frequency = posting.get(index)!;
+          const idf = Math.log(1 + (documents.length - posting.size + 0.5) / (posting.size + 0.5));
+          const length = documents[index].terms.length;
+          score +=
+            (idf * frequency * (BM25_K1 + 1)) /
+            (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength));
+        }
+        return { index, score };
+      });
+
+    matches.sort((a, b) =>
+      options.sort === "timestamp" || terms.length === 0
+        ? Number(documents[b.index].message.ts) - Number(documents[a.index].message.ts)
+        : b.score - a.score ||
+          Number(documents[b.index].message.ts) - Number(documents[a.index].message.ts),
+    );
+
+    const count = Math.min(options.count ?? 20, MAX_LOCAL_SEARCH_COUNT);
+    return {
+      total: matches.length,
+      matches: matches.slice(0, count).map(({ index, score }) => {
+        const { channel: channelId, message } = documents[index];
+        return {
+          ...message,
+          channel: { id: channelId, name: this.contents.channels[channelId].name },
+          score: Number(score.toFixed(3)),
+        };
+      }),
+      indexed: {
+        channels: Object.keys(this.contents.channels).length,
+        messages: documents.length,
+      },
+    };
+  }
+}
+
+interface SlackRequestOptions {
+  // Sent as the query string of a GET request
+  query?: URLSearchParams;
+  // Sent as a JSON POST body
+  body?: Record<string, unknown>;
+  // Set for writes that were already checked with beginWrite
+  authorized?: boolean;
+}
+
+// User tokens, including rotating ones (xoxe.xoxp-)
+const USER_TOKEN_PATTERN = /^(xoxe\.)?xoxp-/;
+
+class SlackClient {
+  private tokens: TokenSource | undefined;
+  private token: string | undefined;
+  private isUserToken: boolean;
+  private grantedScopes?: string[];
+  private memoizedGetUser: (userId: string) => Promise<{displayName: string, username: string}>;
+  private cache?: Promise<SlackCache>;
+  private localIndex?: Promise<LocalIndex>;
+  private queues = new Map<string, RateLimitQueue>();
+  private authInfo?: Promise<any>;
+  private channelDirectory?: DirectoryEntry;
+  private userDirectory?: DirectoryEntry;
+  private userDirectoryFailedAt?: number;
+  private emojiNames?: Promise<Set<string> | undefined>;
+
+  constructor(
+    token: string | TokenSource,
+    private teamId: string,
+    private policy: WritePolicy = loadWritePolicy(),
+    // Overridable so the server can be pointed at a local stand-in for Slack
+    private apiBaseUrl: string = process.env.SLACK_API_BASE_URL || "https://slack.com/api",
+    // Without a directory the cache only lives as long as the client
+    private cacheDir?: string,
+    // Shared by the clients of all workspaces, so the quota is per session
+    private writes: WriteCount = { used: 0 },
+  ) {
+    if (typeof token === "string") {
+      this.token = token;
+      this.isUserToken = USER_TOKEN_PATTERN.test(token);
+    } else {
+      // `login` only asks for user tokens
+      this.tokens = token;
+      this.isUserToken = true;
+    }
+    
+    // Memoize user lookups in the cache. Failed lookups are not memoized,
+    // only remembered as missing when Slack says the user doesn't exist.
+    const getUser = pMemoize(
+      async (userId: string): Promise<any> => {
+        const cache = await this.getCache();
+        if (cache.isMissing("users", userId)) {
+          throw new SlackApiError("users.info", "user_not_found");
+        }
+        // Warm the cache with one users.list instead of a users.info call per
+        // user. users.list is tier 2, so in large workspaces the listing goes
+        // on in the background and lookups fall back to users.info meanwhile.
+        // A failed listing, e.g. without users:read, isn't retried for a while.
+        const failedRecently =
+          this.userDirectoryFailedAt !== undefined &&
+          Date.now() - this.userDirectoryFailedAt < NEGATIVE_CACHE_TTL_MS;
+        if (!cache.getDirectory("users") && !failedRecently) {
+          await Promise.race([
+            this.getUserDirectory().catch(() => {
+              this.userDirectoryFailedAt = Date.now();
+            }),
+            sleep(USER_DIRECTORY_WAIT_MS),
+          ]);
+          const warmed = cache.get("users", userId);
+          if (warmed) {
+            return warmed;
+          }
+        }
+        try {
+          const data = await this.request("users.info", {
+            query: new URLSearchParams({ user: userId }),
+          });
+          return data.user;
+        } catch (error) {
+          if (error instanceof SlackApiError && error.kind === "not_found") {
+            cache.setMissing("users", userId);
+          }
+          throw error;
+        }
+      },
+      {
+        cache: {
+          has: async (userId: string) => (await this.getCache()).get("users", userId) !== undefined,
+          get: async (userId: string) => (await this.getCache()).get("users", userId),
+          set: async (userId: string, user: any) => (await this.getCache()).set("users", userId, user),
+          delete: async (userId: string) => (await this.getCache()).delete("users", userId),
+        },
+      },
+    );
+
+    this.memoizedGetUser = async (userId: string) => {
+      try {
+        const user = await getUser(userId);
+        return {
+          displayName: user.profile?.display_name || user.real_name || user.name || userId,
+          username: user.name || userId,
+        };
+      } catch (error) {
+        console.error(`Failed to resolve user ${userId}:`, error);
+        return { displayName: userId, username: userId };
+      }
+    };
+  }
+
+  private getCache(): Promise<SlackCache> {
+    if (!this.cache) {
+      this.cache = (async () => {
+        if (!this.cacheDir) {
+          return new SlackCache();
+        }
+        // One file per workspace and user, since users see different channels
+        const { user_id } = await this.getAuthInfo();
+        return new SlackCache(join(this.cacheDir, `${this.teamId}-${user_id}.json`));
+      })();
+      this.cache.catch(() => {
+        this.cache = undefined;
+      });
+    }
+    return this.cache;
+  }
+
+  private getLocalIndex(): Promise<LocalIndex> {
+    if (!this.localIndex) {
+      this.localIndex = (async () => {
+        const { user_id } = await this.getAuthInfo();
+        return new LocalIndex(join(dataDir(), "index", `${this.teamId}-${user_id}.json`));
+      })();
+      this.localIndex.catch(() => {
+        this.localIndex = undefined;
+      });
+    }
+    return this.localIndex;
+  }
+
+  // Pulls the channel's messages since the last sync, or since `since` on
+  // the first sync, into the local index. Threads of the new messages are
+  // included; replies to threads synced earlier are not picked up.
+  async syncChannel(
+    channel_id: string,
+    name?: string,
+    since?: string,
+  ): Promise<{ name?: string; new_messages: number }> {
+    const index = await this.getLocalIndex();
+    const lastTs = index.channel(channel_id)?.last_ts;
+    // Keep the name so in_channel can match it
+    name ??= index.channel(channel_id)?.name ??
+      (await this.getChannelDirectory().catch(() => [])).find((channel) => channel.id === channel_id)?.name;
+    const params = new URLSearchParams({ channel: channel_id, limit: "200" });
+    if (lastTs) {
+      params.set("oldest", lastTs);
+    } else if (since) {
+      params.set("oldest", parseTimeBound(since));
+    }
+
+    const history = (await this.paginate("conversations.history", params, "messages"))
+      .filter((message) => message.ts !== lastTs);
+    const messages: any[] = [];
+    for (const message of history) {
+      messages.push(message);
+      if (message.reply_count > 0 && message.thread_ts === message.ts) {
+        const replies = await this.paginate(
+          "conversations.replies",
+          new URLSearchParams({ channel: channel_id, ts: message.ts, limit: "200" }),
+          "messages",
+        );
+        messages.push(...replies.filter((reply) => reply.ts !== message.ts));
+      }
+    }
+
+    const indexed: IndexedMessage[] = [];
+    for (const message of messages.filter((message) => message.text)) {
+      const author = message.user ? await this.memoizedGetUser(message.user) : undefined;
+      indexed.push({
+        ts: message.ts,
+        thread_ts: message.thread_ts,
+        user: message.user,
+        user_username: author?.username ?? message.username,
+        user_display_name: author?.displayName,
+        text: message.text,
+        reply_count: message.reply_count,
+      });
+    }
+
+    const newest = history.reduce<string | undefined>(
+      (latest, message) => (!latest || Number(message.ts) > Number(latest) ? message.ts : latest),
+      lastTs,
+    );
+    index.addMessages(channel_id, name, indexed, newest);
+    return { name, new_messages: indexed.length };
+  }
+
+  async localSearch(query: string, options: LocalSearchOptions = {}): Promise<any> {
+    const index = await this.getLocalIndex();
+    if (index.channelIds().length === 0) {
+      throw new Error(
+        "No channels have been synced to the local index yet. Run `slack-user-mcp sync <channel>...` first.",
+      );
+    }
+    return this.convertTimestampsToISO(index.search(query, options));
+  }
+
+  // IDs of the channels in the local index
+  async syncedChannels(): Promise<string[]> {
+    return (await this.getLocalIndex()).channelIds();
+  }
+
+  // Drops cached entries, and with `warm` reloads the user and channel directories
+  async clearCache(kind: CacheKind | "all", id?: string, warm = false): Promise<any> {
+    const cache = await this.getCache();
+    const cleared = cache.clear(kind, id);
+    if (kind === "all" || kind === "users") {
+      this.userDirectory = undefined;
+    }
+    if (kind === "all" || kind === "channels") {
+      this.channelDirectory = undefined;
+    }
+    if (!warm) {
+      return { cleared };
+    }
+    const [users, channels] = await Promise.all([
+      this.getUserDirectory(true),
+      this.getChannelDirectory(true),
+    ]);
+    return { cleared, warmed: { users: users.length, channels: channels.length } };
+  }
+
+  private policyUsers?: Promise<{ allowed?: Set<string>; denied: Set<string> }>;
+
+  private resolvePolicyUsers(): Promise<{ allowed?: Set<string>; denied: Set<string> }> {
+    if (!this.policyUsers) {
+      const resolveAll = async (users: string[]) =>
+        new Set(await Promise.all(users.map(async (user) => (await this.resolveUser(user)).id)));
+      this.policyUsers = (async () => ({
+        allowed: this.policy.allowedUsers && (await resolveAll(this.policy.allowedUsers)),
+        denied: await resolveAll(this.policy.deniedUsers),
+      }))();
+      this.policyUsers.catch(() => {
+        this.policyUsers = undefined;
+      });
+    }
+    return this.policyUsers;
+  }
+
+  // Checks a write against the configured policy before it is sent
+  private async authorizeWrite(method: string, channelId: string | undefined): Promise<void> {
+    if (this.policy.readOnly) {
+      throw new WritePolicyError(`The server is in read-only mode, ${method} is not allowed`);
+    }
+    if (DESTRUCTIVE_METHODS.has(method) && !this.policy.allowDestructive) {
+      throw new WritePolicyError(`${method} is destructive and disabled, set SLACK_ALLOW_DESTRUCTIVE=true to allow it`);
+    }
+    if (!channelId) {
+      return;
+    }
+    // A DM that dry-run mode didn't open
+    if (/^[UW]/.test(channelId)) {
+      await this.authorizeNewConversation(method, [channelId]);
+      return;
+    }
+
+    const needsChannelInfo =
+      this.policy.allowedChannels ||
+      this.policy.deniedChannels.length > 0 ||
+      this.policy.allowedUsers ||
+      this.policy.deniedUsers.length > 0;
+    if (!needsChannelInfo) {
+      return;
+    }
+
+    const { channel } = await this.request("conversations.info", {
+      query: new URLSearchParams({ channel: channelId }),
+    });
+    const matches = (entries: string[]) =>
+      entries.some((entry) => {
+        const normalized = entry.replace(/^#/, "").toLowerCase();
+        return normalized === channel.id.toLowerCase() || normalized === channel.name?.toLowerCase();
+      });
+
+    if (matches(this.policy.deniedChannels)) {
+      throw new WritePolicyError(`Writing to ${channel.name ?? channel.id} is denied by the write policy`);
+    }
+    // DMs and group DMs are governed by the user lists when an allowlist of
+    // users is configured, and by the channel allowlist otherwise
+    const isDm = channel.is_im || channel.is_mpim;
+    if (
+      this.policy.allowedChannels &&
+      !(isDm && this.policy.allowedUsers) &&
+      !matches(this.policy.allowedChannels)
+    ) {
+      throw new WritePolicyError(
+        `${channel.name ?? channel.id} is not in the write policy's list of allowed channels`,
+      );
+    }
+
+    if (isDm && (this.policy.allowedUsers || this.policy.deniedUsers.length > 0)) {
+      const members: string[] = channel.is_im
+        ? [channel.user]
+        : await this.paginate(
+            "conversations.members",
+            new URLSearchParams({ channel: channel.id, limit: "200" }),
+            "members",
+          );
+      await this.authorizeMembers(members);
+    }
+  }
+
+  private async authorizeMembers(members: string[]): Promise<void> {
+    const { user_id: self } = await this.getAuthInfo();
+    const { allowed, denied } = await this.resolvePolicyUsers();
+    for (const member of members.filter((member) => member !== self)) {
+      if (denied.has(member)) {
+        throw new WritePolicyError(`Messaging ${member} is denied by the write policy`);
+      }
+      if (allowed && !allowed.has(member)) {
+        throw new WritePolicyError(`${member} is not in the write policy's list of allowed users`);
+      }
+    }
+  }
+
+  // Checks a write to a DM or group DM that doesn't exist yet, by its members
+  private async authorizeNewConversation(method: string, user_ids: string[]): Promise<void> {
+    if (this.policy.readOnly) {
+      throw new WritePolicyError(`The server is in read-only mode, ${method} is not allowed`);
+    }
+    // A conversation that doesn't exist can't be in the channel allowlist
+    if (this.policy.allowedChannels && !this.policy.allowedUsers) {
+      throw new WritePolicyError(
+        "New DMs are not in the write policy's list of allowed channels, set allowed users to permit them",
+      );
+    }
+    await this.authorizeMembers(user_ids);
+  }
+
+  // Takes a slot in the write quota, then checks the write against the
+  // policy. The slot is taken before the first await so that concurrent
+  // writes can't all pass the quota check, and is given back when the
+  // policy refuses the write. Dry runs don't use the quota. Writes to a
+  // conversation that isn't open yet are checked by its members.
+  private async beginWrite(
+    method: string,
+    channelId: string | undefined,
+    newConversationUsers?: string[],
+  ): Promise<void> {
+    if (
+      this.policy.maxWritesPerSession !== undefined &&
+      this.writes.used >= this.policy.maxWritesPerSession
+    ) {
+      throw new WritePolicyError(
+        `The write quota of ${this.policy.maxWritesPerSession} per session has been used up`,
+      );
+    }
+    const counted = !this.policy.dryRun;
+    if (counted) {
+      this.writes.used++;
+    }
+    try {
+      await (newConversationUsers
+        ? this.authorizeNewConversation(method, newConversationUsers)
+        : this.authorizeWrite(method, channelId));
+    } catch (error) {
+      if (counted) {
+        this.writes.used--;
+      }
+      throw error;
+    }
+  }
+
+  private queueFor(method: string): RateLimitQueue {
+    let queue = this.queues.get(method);
+    if (!queue) {
+      const tier = SLACK_METHOD_TIERS[method] ?? DEFAULT_TIER;
+      queue = new RateLimitQueue(TIER_REQUESTS_PER_MINUTE[tier]);
+      this.queues.set(method, queue);
+    }
+    return queue;
+  }
+
+  private async currentToken(): Promise<string> {
+    return this.token ?? (await this.tokens!.token());
+  }
+
+  // Single request path for every Slack Web API call. Waits for a slot in the
+  // method's rate limit queue, honours Retry-After on 429 and `ratelimited`
+  // responses, and retries network errors and 5xx responses with backoff.
+  // Responses with `ok: false` are thrown as SlackApiError. Writes are
+  // checked against the write policy first, and only echoed back in dry-run mode.
+  private async request(
+    method: string,
+    options: SlackRequestOptions = {},
+  ): Promise<any> {
+    if (WRITE_METHODS.has(method) && !options.authorized) {
+      await this.beginWrite(
+        method,
+        (options.body?.channel ?? options.body?.channel_id) as string | undefined,
+      );
+      if (this.policy.dryRun) {
+        return { ok: true, dry_run: true, method, payload: options.body };
+      }
+    }
+
+    const queue = this.queueFor(method);
+    const url = options.query
+      ? `${this.apiBaseUrl}/${method}?${options.query}`
+      : `${this.apiBaseUrl}/${method}`;
+    let refreshed = false;
+    // Slack may have applied a write that failed with a network error or a
+    // 5xx, so only reads are retried then. Rate limited calls were not applied.
+    const retryFailures = !WRITE_METHODS.has(method);
+
+    for (let attempt = 0; ; attempt++) {
+      await queue.acquire();
+
+      const headers = {
+        Authorization: `Bearer ${await this.currentToken()}`,
+        "Content-Type": "application/json",
+      };
+      const init: RequestInit = options.body
+        ? { method: "POST", headers, body: JSON.stringify(options.body) }
+        : { headers };
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        if (!retryFailures || attempt >= MAX_RETRIES) {
+          throw error;
+        }
+        const delay = retryDelay(attempt);
+        console.error(`Network error calling ${method}, retrying in ${delay}ms:`, error);
+        await sleep(delay);
+        continue;
+      }
+
+      if (response.status === 429) {
+        const delay = retryAfterDelay(response, attempt);
+        queue.pause(delay);
+        if (attempt >= MAX_RETRIES) {
+          throw new SlackApiError(method, "ratelimited");
+        }
+        console.error(`Rate limited on ${method}, retrying in ${delay}ms`);
+        continue;
+      }
+
+      if (response.status >= 500) {
+        if (!retryFailures || attempt >= MAX_RETRIES) {
+          throw new Error(`Slack API ${method} failed with HTTP ${response.status}`);
+        }
+        const delay = retryDelay(attempt);
+        console.error(`Slack API ${method} returned HTTP ${response.status}, retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      const scopes = response.headers.get("x-oauth-scopes");
+      if (scopes !== null) {
+        this.grantedScopes = scopes.split(",").map((scope) => scope.trim()).filter(Boolean);
+      }
+
+      const data = await response.json();
+      if (data.ok === false && data.error === "token_expired" && this.tokens && !refreshed) {
+        // Rotating tokens can expire between the expiry check and the call
+        refreshed = true;
+        await this.tokens.refresh();
+        continue;
+      }
+      if (data.ok === false && data.error === "ratelimited" && attempt < MAX_RETRIES) {
+        const delay = retryAfterDelay(response, attempt);
+        queue.pause(delay);
+        console.error(`Rate limited on ${method}, retrying in ${delay}ms`);
+        continue;
+      }
+      if (data.ok === false) {
+        throw SlackApiError.fromResponse(method, data);
+      }
+      return data;
+    }
+  }
+
+  // Adds an ISO 8601 sibling (`ts_iso`, `thread_ts_iso`, ...) next to every
+  // Slack timestamp. The raw values are kept so they can be passed back to
+  // tools that target a message.
+  private convertTimestampsToISO(obj: any): any {
+    if (obj === null || obj === undefined) {
+      return obj;
+    }
+    
+    if (Array.isArray(obj)) {
+      return obj.map(item => this.convertTimestampsToISO(item));
+    }
+    
+    if (typeof obj === 'object') {
+      const converted = { ...obj };
+      for (const [key, value] of Object.entries(converted)) {
+        if ((key === 'ts' || key === 'thread_ts' || key === 'timestamp' || key.endsWith('_ts')) && 
+            typeof value === 'string' && /^\d+(\.\d+)?$/.test(value)) {
+          const timestamp = parseFloat(value);
+          converted[`${key}_iso`] = new Date(timestamp * 1000).toISOString();
+        } else if (typeof value === 'object') {
+          converted[key] = this.convertTimestampsToISO(value);
+        }
+      }
+      return converted;
+    }
+    
+    return obj;
+  }
+
+  private async enrichWithUserInfo(obj: any): Promise<any> {
+    if (!obj || typeof obj !== 'object') {
+      return obj;
+    }
+
+    if (Array.isArray(obj)) {
+      return Promise.all(obj.map(item => this.enrichWithUserInfo(item)));
+    }
+
+    const enriched = { ...obj };
+
+    // Add user info fields if we have a user ID but missing readable names
+    if (enriched.user && typeof enriched.user === 'string' && 
+        enriched.user.match(/^U[A-Z0-9]+$/) && !enriched.user_display_name) {
+      const userInfo = await this.memoizedGetUser(enriched.user);
+      enriched.user_display_name = userInfo.displayName;
+      enriched.user_username = userInfo.username;
+    }
+
+    // Reactions list the users who added them
+    if (Array.isArray(enriched.users) && !enriched.user_names &&
+        enriched.users.every((user: unknown) => typeof user === 'string' && /^U[A-Z0-9]+$/.test(user))) {
+      enriched.user_names = await Promise.all(
+        enriched.users.map(async (user: string) => (await this.memoizedGetUser(user)).displayName),
+      );
+    }
+
+    // Recursively process nested objects
+    for (const [key, value] of Object.entries(enriched)) {
+      if (typeof value === 'object') {
+        enriched[key] = await this.enrichWithUserInfo(value);
+      }
+    }
+
+    return enriched;
+  }
+
+  // Replaces Slack's <@U123>, <#C123|name>, <!here> and <url|label> markup
+  // with readable text
+  private async resolveMentions(text: string, format: OutputFormat): Promise<string> {
+    const pattern = /<([^<>]+)>/g;
+    const replacements = await Promise.all(
+      Array.from(text.matchAll(pattern), async ([, inner]) => {
+        const [target, label] = inner.split("|", 2);
+
+        if (target.startsWith("@")) {
+          return `@${label ?? (await this.memoizedGetUser(target.slice(1))).username}`;
+        }
+        if (target.startsWith("#")) {
+          if (label) {
+            return `#${label}`;
+          }
+          const channel = (await this.getChannelDirectory().catch(() => [])).find(
+            (candidate) => candidate.id === target.slice(1),
+          );
+          return `#${channel?.name ?? target.slice(1)}`;
+        }
+        if (target.startsWith("!subteam^")) {
+          return label ?? "@team";
+        }
+        if (target.startsWith("!")) {
+          return `@${label ?? target.slice(1).split("^")[0]}`;
+        }
+        if (!label) {
+          return target.replace(/^mailto:/, "");
+        }
+        return format === "markdown" ? `[${label}](${target})` : `${label} (${target})`;
+      }),
+    );
+
+    let index = 0;
+    return unescapeSlackText(text.replace(pattern, () => replacements[index++]));
+  }
+
+  private async renderMessage(
+    message: any,
+    format: Exclude<OutputFormat, "raw">,
+  ): Promise<string> {
+    const name =
+      message.user_username ?? message.username ?? message.bot_profile?.name ?? message.user ?? "unknown";
+    const channel = message.channel?.name ? `#${message.channel.name} ` : "";
+    const text = await this.resolveMentions(message.text ?? "", format);
+
+    const details = [`ts ${message.ts}`];
+    if (message.reply_count) {
+      details.push(`${message.reply_count} ${message.reply_count === 1 ? "reply" : "replies"}`);
+    }
+    if (message.reactions?.length) {
+      details.push(
+        message.reactions.map((reaction: any) => `:${reaction.name}: ${reaction.count}`).join(" "),
+      );
+    }
+    if (message.files?.length) {
+      details.push(
+        `files: ${message.files.map((file: any) => (file.name ? `${file.name} (${file.id})` : file.id)).join(", ")}`,
+      );
+    }
+
+    const time = formatMessageTime(message.ts);
+    if (format === "markdown") {
+      const body = text.replace(/\n/g, "\n  ");
+      return `- **[${time}] ${channel}@${name}:** ${body} _(${details.join(" · ")})_`;
+    }
+    return `[${time}] ${channel}@${name}: ${text.replace(/\n/g, "\n    ")} (${details.join(", ")})`;
+  }
+
+  // Renders messages one per line as "[time] @name: text", with any replies
+  // attached by include_replies indented underneath their parent
+  async renderMessages(
+    messages: any[],
+    format: Exclude<OutputFormat, "raw">,
+  ): Promise<string> {
+    const lines: string[] = [];
+    for (const message of messages) {
+      lines.push(await this.renderMessage(message, format));
+      for (const reply of message.replies ?? []) {
+        lines.push(`  ${await this.renderMessage(reply, format)}`);
+      }
+    }
+    return lines.join("\n");
+  }
+
+  private async paginate(
+    method: string,
+    params: URLSearchParams,
+    key: string,
+  ): Promise<any[]> {
+    const items: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const pageParams = new URLSearchParams(params);
+      if (cursor) {
+        pageParams.set("cursor", cursor);
+      }
+      const data = await this.request(method, { query: pageParams });
+      items.push(...(data[key] ?? []));
+      cursor = data.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+    return items;
+  }
+
+  private loadDirectory(
+    kind: "users" | "channels",
+    current: DirectoryEntry | undefined,
+    load: () => Promise<any[]>,
+    refresh: boolean,
+  ): DirectoryEntry {
+    if (current && !refresh && Date.now() - current.loadedAt < CACHE_TTL_MS[kind]) {
+      return current;
+    }
+    const entry = {
+      loadedAt: Date.now(),
+      items: (async () => {
+        const cache = await this.getCache();
+        const cached = refresh ? undefined : cache.getDirectory(kind);
+        if (cached) {
+          return cached;
+        }
+        const items = await load();
+        cache.setDirectory(kind, items);
+        return items;
+      })(),
+    };
+    // Don't keep a failed load around, the next lookup should try again
+    entry.items.catch(() => {
+      if (this.channelDirectory === entry) this.channelDirectory = undefined;
+      if (this.userDirectory === entry) this.userDirectory = undefined;
+    });
+    return entry;
+  }
+
+  private getChannelDirectory(refresh = false): Promise<any[]> {
+    this.channelDirectory = this.loadDirectory(
+      "channels",
+      this.channelDirectory,
+      () =>
+        this.paginate(
+          "conversations.list",
+          new URLSearchParams({
+            types: "public_channel,private_channel,mpim,im",
+            limit: "200",
+            team_id: this.teamId,
+          }),
+          "channels",
+        ),
+      refresh,
+    );
+    return this.channelDirectory.items;
+  }
+
+  private getUserDirectory(refresh = false): Promise<any[]> {
+    this.userDirectory = this.loadDirectory(
+      "users",
+      this.userDirectory,
+      () =>
+        this.paginate(
+          "users.list",
+          new URLSearchParams({
+            limit: "200",
+            team_id: this.teamId,
+          }),
+          "members",
+        ),
+      refresh,
+    );
+    return this.userDirectory.items;
+  }
+
+  // Accepts a channel ID, "#name", "<#C123|name>", a Slack permalink, or a
+  // user reference ("@jane", email, user ID) for that user's DM channel.
+  async resolveChannel(input: string, options: { openDm?: boolean } = {}): Promise<ResolvedChannel> {
+    const value = input.trim();
+
+    const permalink = parsePermalink(value);
+    if (permalink) {
+      return permalink;
+    }
+
+    const mention = /^<#([CGD][A-Z0-9]+)(?:\|([^>]*))?>$/.exec(value);
+    if (mention) {
+      return { id: mention[1], name: mention[2] || undefined };
+    }
+
+    if (/^[CGD][A-Z0-9]{6,}$/.test(value)) {
+      return { id: value };
+    }
+
+    if (value.startsWith("@") || value.includes("@") || /^<?@?[UW][A-Z0-9]{6,}>?$/.test(value)) {
+      const user = await this.resolveUser(value);
+      const existing = await this.findConversation([user.id]);
+      if (existing) {
+        return { id: existing, name: user.name };
+      }
+      if (!options.openDm) {
+        throw new Error(`There is no DM with ${value} yet. Use slack_send_dm to start one.`);
+      }
+      return { id: await this.openDm(user.id), name: user.name };
+    }
+
+    const name = value.replace(/^#/, "").toLowerCase();
+    const find = (channels: any[]) =>
+      channels.find(
+        (channel) =>
+          channel.name?.toLowerCase() === name ||
+          channel.name_normalized?.toLowerCase() === name,
+      );
+
+    let channel = find(await this.getChannelDirectory());
+    if (!channel) {
+      // The channel may have been created or renamed since the directory was loaded
+      channel = find(await this.getChannelDirectory(true));
+    }
+    if (!channel) {
+      throw new Error(
+        `No channel named "#${name}" is visible to the user. Use slack_list_channels to find the channel ID.`,
+      );
+    }
+    return { id: channel.id, name: channel.name };
+  }
+
+  // Accepts a user ID, "<@U123>", "@handle", a display or real name, or an email address
+  async resolveUser(input: string): Promise<ResolvedUser> {
+    const value = input.trim();
+
+    const id = /^<?@?([UW][A-Z0-9]{6,})(?:\|[^>]*)?>?$/.exec(value);
+    if (id) {
+      return { id: id[1] };
+    }
+
+    if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value)) {
+      const data = await this.request("users.lookupByEmail", {
+        query: new URLSearchParams({ email: value }),
+      });
+      return { id: data.user.id, name: data.user.name };
+    }
+
+    const name = value.replace(/^@/, "").toLowerCase();
+    const find = (users: any[]) => {
+      const active = users.filter((user) => !user.deleted);
+      const exact = active.find((user) => user.name?.toLowerCase() === name);
+      if (exact) {
+        return [exact];
+      }
+      return active.filter(
+        (user) =>
+          user.profile?.display_name?.toLowerCase() === name ||
+          user.profile?.real_name?.toLowerCase() === name ||
+          user.real_name?.toLowerCase() === name,
+      );
+    };
+
+    let matches = find(await this.getUserDirectory());
+    if (matches.length === 0) {
+      matches = find(await this.getUserDirectory(true));
+    }
+    if (matches.length === 0) {
+      throw new Error(
+        `No user matching "${value}" was found. Use slack_get_users to find the user ID.`,
+      );
+    }
+    if (matches.length > 1) {
+      const candidates = matches.map((user) => `${user.id} (@${user.name})`).join(", ");
+      throw new Error(`"${value}" matches several users: ${candidates}. Pass a user ID instead.`);
+    }
+    return { id: matches[0].id, name: matches[0].name };
+  }
+
+  // The DM with one user, or the group DM with several, if it exists.
+  // Reloads the channel directory once for conversations opened elsewhere.
+  async findConversation(user_ids: string[]): Promise<string | undefined> {
+    const unique = [...new Set(user_ids)];
+    const { user_id: self } = await this.getAuthInfo();
+    const members = new Set([self, ...unique]);
+    for (const refresh of [false, true]) {
+      const directory = await this.getChannelDirectory(refresh);
+      if (unique.length === 1) {
+        const dm = directory.find((channel) => channel.is_im && channel.user === unique[0]);
+        if (dm) {
+          return dm.id;
+        }
+        continue;
+      }
+      // Group DM names list their members, check the likely ones exactly
+      const candidates = directory.filter(
+        (channel) =>
+          channel.is_mpim &&
+          (this.withMpimParticipants(channel).mpim_participants?.length ?? members.size) === members.size,
+      );
+      for (const candidate of candidates) {
+        const current = await this.paginate(
+          "conversations.members",
+          new URLSearchParams({ channel: candidate.id, limit: "200" }),
+          "members",
+        );
+        if (current.length === members.size && current.every((member: string) => members.has(member))) {
+          return candidate.id;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Posts to the DM with one user or the group DM with several. A
+  // conversation that isn't open yet is checked against the write policy
+  // by its members first, so a refused or dry-run message doesn't open it.
+  async sendDm(user_ids: string[], text: string, options: MessageOptions = {}): Promise<any> {
+    const unique = [...new Set(user_ids)];
+    const existing = await this.findConversation(unique);
+    if (existing) {
+      return { ...(await this.postMessage(existing, text, options)), channel_id: existing };
+    }
+
+    await this.beginWrite("chat.postMessage", undefined, unique);
+    const body = { text, as_user: this.isUserToken, ...options };
+    if (this.policy.dryRun) {
+      return { ok: true, dry_run: true, method: "chat.postMessage", payload: { users: unique, ...body } };
+    }
+    const { channel } = await this.request("conversations.open", {
+      body: { users: unique.join(",") },
+    });
+    const data = await this.request("chat.postMessage", {
+      body: { channel: channel.id, ...body },
+      authorized: true,
+    });
+    return { ...this.convertTimestampsToISO(data), channel_id: channel.id };
+  }
+
+  // Opens a DM for a write to it. The user is checked against the write
+  // policy first, so a refused write doesn't open the DM. In dry-run mode
+  // nothing is opened: Slack also accepts a user ID as a message's channel.
+  private async openDm(userId: string): Promise<string> {
+    await this.authorizeNewConversation("conversations.open", [userId]);
+    if (this.policy.dryRun) {
+      return userId;
+    }
+    const data = await this.request("conversations.open", {
+      body: { users: userId },
+    });
+    return data.channel.id;
+  }
+
+  // Turns a timestamp in any format accepted by normalizeTs into the exact ts
+  // of a message. ISO inputs only carry millisecond precision, so the message
+  // is looked up in the millisecond window they describe.
+  async resolveMessageTs(channel_id: string, value: string): Promise<string> {
+    const ts = normalizeTs(value);
+    if (!isIsoTimestamp(value)) {
+      return ts;
+    }
+
+    const data = await this.request("conversations.history", {
+      query: new URLSearchParams({
+        channel: channel_id,
+        oldest: ts,
+        latest: (parseFloat(ts) + 0.001).toFixed(6),
+        inclusive: "true",
+        limit: "1",
+      }),
+    });
+    // Thread replies are not part of the channel history, fall back to the
+    // millisecond timestamp for those
+    return data.messages?.[0]?.ts ?? ts;
+  }
+
+  // Prepares message text for posting: optionally converts Markdown to
+  // mrkdwn and expands "@name" into <@U123> mentions. Names that don't match
+  // exactly one user are left as they are. @here, @channel and @everyone
+  // only become broadcasts when asked for explicitly.
+  async composeText(
+    text: string,
+    {
+      markdown = false,
+      expandMentions = true,
+      broadcastMentions = false,
+    }: { markdown?: boolean; expandMentions?: boolean; broadcastMentions?: boolean } = {},
+  ): Promise<string> {
+    const composed = markdown ? markdownToMrkdwn(text) : text;
+    if (!expandMentions && !broadcastMentions) {
+      return composed;
+    }
+
+    const names = new Set<string>();
+    mapOutsideCode(composed, (segment) => {
+      for (const match of segment.matchAll(MENTION_PATTERN)) {
+        names.add(match[2]);
+      }
+      return segment;
+    });
+
+    const mentions = new Map<string, string>();
+    for (const name of names) {
+      if (SPECIAL_MENTIONS[name.toLowerCase()]) {
+        if (broadcastMentions) {
+          mentions.set(name, SPECIAL_MENTIONS[name.toLowerCase()]);
+        }
+        continue;
+      }
+      if (!expandMentions) {
+        continue;
+      }
+      try {
+        mentions.set(name, `<@${(await this.resolveUser(name)).id}>`);
+      } catch (error) {
+        console.error(`Leaving @${name} as plain text:`, error);
+      }
+    }
+
+    return mapOutsideCode(composed, (segment) =>
+      segment.replace(MENTION_PATTERN, (match, prefix, name) =>
+        mentions.has(name) ? `${prefix}${mentions.get(name)}` : match,
+      ),
+    );
+  }
+
+  async getChannels(
+    limit: number = 100,
+    cursor?: string,
+    types: ConversationType[] = ["public_channel", "private_channel"],
+    memberOnly: boolean = false,
+    includeArchived: boolean = false,
+  ): Promise<any> {
+    const params = new URLSearchParams({
+      types: types.join(","),
+      exclude_archived: (!includeArchived).toString(),
+      limit: Math.min(limit, 200).toString(),
+      team_id: this.teamId,
+    });
+
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+
+    // users.conversations takes the same arguments as conversations.list but
+    // only returns conversations the user is a member of
+    const data = await this.request(
+      memberOnly ? "users.conversations" : "conversations.list",
+      { query: params },
+    );
+    data.channels = data.channels?.map((channel: any) =>
+      channel.is_mpim ? this.withMpimParticipants(channel) : channel,
+    );
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
+  }
+
+  // Group DM names look like "mpdm-alice--bob--carol-1"
+  private withMpimParticipants(channel: any): any {
+    const match = /^mpdm-(.+)-\d+$/.exec(channel.name ?? "");
+    if (!match) {
+      return channel;
+    }
+    return { ...channel, mpim_participants: match[1].split("--") };
+  }
+
+  // Writes with an allowlist may only create channels named in it
+  async createChannel(name: string, isPrivate = false): Promise<any> {
+    const normalized = name.trim().replace(/^#/, "");
+    const listed = (entries: string[]) =>
+      entries.some((entry) => entry.replace(/^#/, "").toLowerCase() === normalized.toLowerCase());
+    if (listed(this.policy.deniedChannels) || (this.policy.allowedChannels && !listed(this.policy.allowedChannels))) {
+      throw new WritePolicyError(`Creating #${normalized} is not allowed by the write policy`);
+    }
+    const data = await this.request("conversations.create", {
+      body: { name: normalized, is_private: isPrivate, team_id: this.teamId },
+    });
+    return this.convertTimestampsToISO(data);
+  }
+
+  async joinChannel(channel_id: string): Promise<any> {
+    const data = await this.request("conversations.join", { body: { channel: channel_id } });
+    return this.convertTimestampsToISO(data);
+  }
+
+  async leaveChannel(channel_id: string): Promise<any> {
+    return this.request("conversations.leave", { body: { channel: channel_id } });
+  }
+
+  async inviteToChannel(channel_id: string, user_ids: string[]): Promise<any> {
+    const data = await this.request("conversations.invite", {
+      body: { channel: channel_id, users: user_ids.join(",") },
+    });
+    return this.convertTimestampsToISO(data);
+  }
+
+  async removeFromChannel(channel_id: string, user_id: string): Promise<any> {
+    return this.request("conversations.kick", { body: { channel: channel_id, user: user_id } });
+  }
+
+  async setChannelTopic(channel_id: string, topic: string): Promise<any> {
+    const data = await this.request("conversations.setTopic", { body: { channel: channel_id, topic } });
+    return this.convertTimestampsToISO(data);
+  }
+
+  async setChannelPurpose(channel_id: string, purpose: string): Promise<any> {
+    const data = await this.request("conversations.setPurpose", { body: { channel: channel_id, purpose } });
+    return this.convertTimestampsToISO(data);
+  }
+
+  // Archiving and renaming change what the cached channel directory knows
+  async archiveChannel(channel_id: string): Promise<any> {
+    const data = await this.request("conversations.archive", { body: { channel: channel_id } });
+    await this.clearCache("channels", channel_id);
+    return data;
+  }
+
+  async unarchiveChannel(channel_id: string): Promise<any> {
+    const data = await this.request("conversations.unarchive", { body: { channel: channel_id } });
+    await this.clearCache("channels", channel_id);
+    return data;
+  }
+
+  async renameChannel(channel_id: string, name: string): Promise<any> {
+    const data = await this.request("conversations.rename", {
+      body: { channel: channel_id, name: name.trim().replace(/^#/, "") },
+    });
+    await this.clearCache("channels", channel_id);
+    return this.convertTimestampsToISO(data);
+  }
+
+  // Members as { user, user_display_name, user_username }
+  async getChannelMembers(channel_id: string, limit: number = 100, cursor?: string): Promise<any> {
+    const params = new URLSearchParams({
+      channel: channel_id,
+      limit: Math.min(limit, 1000).toString(),
+    });
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+    const data = await this.request("conversations.members", { query: params });
+    return this.enrichWithUserInfo({
+      ...data,
+      members: (data.members ?? []).map((user: string) => ({ user })),
+    });
+  }
+
+  async postMessage(
+    channel_id: string,
+    text: string,
+    options: MessageOptions = {},
+  ): Promise<any> {
+    const data = await this.request("chat.postMessage", {
+      body: {
+        channel: channel_id,
+        text: text,
+        as_user: this.isUserToken,
+        ...options,
+      },
+    });
+    return this.convertTimestampsToISO(data);
+  }
+
+  async postReply(
+    channel_id: string,
+    thread_ts: string,
+    text: string,
+    options: MessageOptions = {},
+  ): Promise<any> {
+    const data = await this.request("chat.postMessage", {
+      body: {
+        channel: channel_id,
+        thread_ts: thread_ts,
+        text: text,
+        as_user: this.isUserToken,
+        ...options,
+      },
+    });
+    return this.convertTimestampsToISO(data);
+  }
+
+  async addReaction(
+    channel_id: string,
+    timestamp: string,
+    reaction: string,
+  ): Promise<any> {
+    const data = await this.request("reactions.add", {
+      body: {
+        channel: channel_id,
+        timestamp: timestamp,
+        name: reaction,
+      },
+    }).catch((error) => this.unknownEmoji(error, reaction));
+    return this.convertTimestampsToISO(data);
+  }
+
+  async removeReaction(
+    channel_id: string,
+    timestamp: string,
+    reaction: string,
+  ): Promise<any> {
+    const data = await this.request("reactions.remove", {
+      body: {
+        channel: channel_id,
+        timestamp: timestamp,
+        name: reaction,
+      },
+    }).catch((error) => this.unknownEmoji(error, reaction));
+    return this.convertTimestampsToISO(data);
+  }
+
+  async getReactions(channel_id: string, timestamp: string): Promise<any> {
+    const data = await this.request("reactions.get", {
+      query: new URLSearchParams({ channel: channel_id, timestamp, full: "true" }),
+    });
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
+  }
+
+  async listReactions(user_id?: string, limit: number = 20, cursor?: string): Promise<any> {
+    const params = new URLSearchParams({
+      limit: Math.min(limit, 100).toString(),
+      full: "true",
+      team_id: this.teamId,
+    });
+
+    if (user_id) {
+      params.append("user", user_id);
+    }
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+
+    const data = await this.request("reactions.list", { query: params });
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
+  }
+
+  private async digestMessage(message: any): Promise<DigestMessage> {
+    return {
+      ts: message.ts,
+      ts_iso: message.ts_iso,
+      user: message.user,
+      user_name: message.user_username ?? message.username ?? message.bot_profile?.name ?? message.user ?? "unknown",
+      text: await this.resolveMentions(message.text ?? "", "compact"),
+    };
+  }
+
+  // Builds a catch-up digest: each channel's top-level messages in the
+  // window with their whole threads, then trims it to the token budget
+  async getDigest(
+    channels: ResolvedChannel[],
+    options: { oldest?: string; latest?: string; maxMessages?: number; tokenBudget?: number } = {},
+  ): Promise<any> {
+    const oldest = parseTimeBound(options.oldest ?? DEFAULT_DIGEST_WINDOW);
+    const latest = options.latest ? parseTimeBound(options.latest) : (Date.now() / 1000).toFixed(6);
+    const everyone = new Map<string, { id: string; name: string; messages: number }>();
+
+    const digests: DigestChannel[] = [];
+    for (const channel of channels) {
+      const history = await this.getChannelHistory(channel.id, DEFAULT_DIGEST_MESSAGES, {
+        oldest,
+        latest,
+        autoPaginate: true,
+        maxMessages: options.maxMessages ?? DEFAULT_DIGEST_MESSAGES,
+        includeReplies: true,
+      });
+      const participants = new Map<string, { id: string; name: string; messages: number }>();
+      const count = (message: DigestMessage) => {
+        const id = message.user ?? message.user_name;
+        for (const map of [participants, everyone]) {
+          const entry = map.get(id) ?? { id, name: message.user_name, messages: 0 };
+          entry.messages++;
+          map.set(id, entry);
+        }
+      };
+
+      const threads: DigestThread[] = [];
+      // Oldest first, so the digest reads in order
+      for (const message of [...history.messages].reverse()) {
+        const parent = await this.digestMessage(message);
+        const replies: DigestMessage[] = [];
+        for (const reply of message.replies ?? []) {
+          replies.push(await this.digestMessage(reply));
+        }
+        [parent, ...replies].forEach(count);
+
+        const reactions: any[] = [message, ...(message.replies ?? [])].flatMap((item) => item.reactions ?? []);
+        const resolved = reactions.some((reaction) => RESOLVED_REACTIONS.includes(reaction.name.split("::")[0]));
+        const last = replies[replies.length - 1] ?? parent;
+        threads.push({
+          ...parent,
+          reply_count: replies.length,
+          last_activity_ts: last.ts,
+          last_activity_iso: last.ts_iso,
+          participants: [...new Set([parent, ...replies].map((item) => item.user_name))],
+          reactions: message.reactions?.map((reaction: any) => `${reaction.name} ${reaction.count}`),
+          unresolved: !/\?(\s|$)/.test(parent.text) || resolved
+            ? undefined
+            : replies.length === 0 ? "no_reply" : "no_check_mark",
+          replies,
+        });
+      }
+
+      digests.push({
+        id: channel.id,
+        name: channel.name ??
+          (await this.getChannelDirectory().catch(() => [])).find((entry) => entry.id === channel.id)?.name,
+        message_count: threads.reduce((sum, thread) => sum + 1 + thread.reply_count, 0),
+        participants: [...participants.values()].sort((a, b) => b.messages - a.messages),
+        threads,
+        has_more: history.has_more,
+      });
+    }
+
+    const digest = {
+      window: {
+        oldest,
+        oldest_iso: new Date(Number(oldest) * 1000).toISOString(),
+        latest,
+        latest_iso: new Date(Number(latest) * 1000).toISOString(),
+      },
+      participants: [...everyone.values()].sort((a, b) => b.messages - a.messages),
+      unresolved_questions: digests.flatMap((channel) =>
+        channel.threads
+          .filter((thread) => thread.unresolved)
+          .map((thread) => ({ channel: channel.id, ts: thread.ts, reason: thread.unresolved })),
+      ),
+      channels: digests,
+      trimmed: [] as string[],
+      estimated_tokens: 0,
+    };
+    this.trimDigest(digest, options.tokenBudget ?? DEFAULT_DIGEST_TOKEN_BUDGET);
+    digest.estimated_tokens = estimateTokens(digest);
+    return digest;
+  }
+
+  // Trims in steps, least informative first, until the digest fits
+  private trimDigest(digest: { channels: DigestChannel[]; trimmed: string[] }, budget: number): void {
+    const threads = () => digest.channels.flatMap((channel) => channel.threads);
+    const steps: [string, () => void][] = [
+      ["long_messages", () => {
+        for (const thread of threads()) {
+          for (const message of [thread, ...thread.replies]) {
+            message.text = truncateText(message.text, 500);
+          }
+        }
+      }],
+      ["long_threads", () => {
+        for (const thread of threads()) {
+          const keep = DIGEST_THREAD_HEAD + DIGEST_THREAD_TAIL;
+          if (thread.replies.length > keep) {
+            thread.omitted_replies = thread.replies.length - keep;
+            thread.replies = [
+              ...thread.replies.slice(0, DIGEST_THREAD_HEAD),
+              ...thread.replies.slice(-DIGEST_THREAD_TAIL),
+            ];
+          }
+        }
+      }],
+      ["short_messages", () => {
+        for (const thread of threads()) {
+          for (const message of [thread, ...thread.replies]) {
+            message.text = truncateText(message.text, 200);
+          }
+        }
+      }],
+      ["replies", () => {
+        for (const thread of threads().filter((candidate) => candidate.reply_count > 0)) {
+          thread.omitted_replies = thread.reply_count;
+          thread.replies = [];
+        }
+      }],
+    ];
+
+    for (const [name, step] of steps) {
+      if (estimateTokens(digest) <= budget) {
+        return;
+      }
+      step();
+      digest.trimmed.push(name);
     }
-    
-    if (Array.isArray(obj)) {
-      return obj.map(item => this.convertTimestampsToISO(item));
+
+    // Finally drop whole threads, the oldest answered ones first
+    const candidates = digest.channels
+      .flatMap((channel) => channel.threads.map((thread) => ({ channel, thread })))
+      .sort((a, b) => Number(Boolean(a.thread.unresolved)) - Number(Boolean(b.thread.unresolved)) ||
+        Number(a.thread.ts) - Number(b.thread.ts));
+    for (const { channel, thread } of candidates) {
+      if (estimateTokens(digest) <= budget) {
+        break;
+      }
+      channel.threads = channel.threads.filter((candidate) => candidate !== thread);
+      channel.omitted_threads = (channel.omitted_threads ?? 0) + 1;
+      if (!digest.trimmed.includes("threads")) {
+        digest.trimmed.push("threads");
+      }
     }
-    
-    if (typeof obj === 'object') {
-      const converted = { ...obj };
-      for (const [key, value] of Object.entries(converted)) {
-        if ((key === 'ts' || key === 'thread_ts' || key === 'timestamp' || key.endsWith('_ts')) && 
-            typeof value === 'string' && /^\d+(\.\d+)?$/.test(value)) {
-          const timestamp = parseFloat(value);
-          converted[key] = new Date(timestamp * 1000).toISOString();
-        } else if (typeof value === 'object') {
-          converted[key] = this.convertTimestampsToISO(value);
+  }
+
+  // Totals per emoji and the most reacted messages in a channel. Skin tone
+  // variants are counted under their base emoji.
+  async getReactionStats(
+    channel_id: string,
+    options: ChannelHistoryOptions & { reaction?: string; top?: number } = {},
+  ): Promise<any> {
+    const history = await this.getChannelHistory(channel_id, 200, { ...options, autoPaginate: true });
+    const messages: any[] = history.messages.flatMap((message: any) => [message, ...(message.replies ?? [])]);
+
+    const byEmoji = new Map<string, { name: string; count: number; messages: number; users: Set<string> }>();
+    const reacted = [];
+    for (const message of messages) {
+      const counts = new Map<string, number>();
+      for (const reaction of message.reactions ?? []) {
+        const name = reaction.name.split("::")[0];
+        if (options.reaction && name !== options.reaction) {
+          continue;
+        }
+        counts.set(name, (counts.get(name) ?? 0) + reaction.count);
+
+        let entry = byEmoji.get(name);
+        if (!entry) {
+          entry = { name, count: 0, messages: 0, users: new Set() };
+          byEmoji.set(name, entry);
+        }
+        entry.count += reaction.count;
+        for (const user of reaction.users ?? []) {
+          entry.users.add(user);
         }
       }
-      return converted;
+      for (const name of counts.keys()) {
+        byEmoji.get(name)!.messages++;
+      }
+      if (counts.size > 0) {
+        reacted.push({
+          ts: message.ts,
+          ts_iso: message.ts_iso,
+          thread_ts: message.thread_ts !== message.ts ? message.thread_ts : undefined,
+          user: message.user,
+          user_display_name: message.user_display_name,
+          text: message.text?.length > 200 ? `${message.text.slice(0, 200)}…` : message.text,
+          reactions: [...counts].map(([name, count]) => ({ name, count })),
+          reaction_count: [...counts.values()].reduce((sum, count) => sum + count, 0),
+        });
+      }
     }
-    
-    return obj;
+
+    reacted.sort((a, b) => b.reaction_count - a.reaction_count || Number(b.ts) - Number(a.ts));
+    return {
+      channel: channel_id,
+      messages_scanned: messages.length,
+      messages_with_reactions: reacted.length,
+      reaction_count: reacted.reduce((sum, message) => sum + message.reaction_count, 0),
+      by_emoji: [...byEmoji.values()]
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+        .map(({ users, ...entry }) => ({ ...entry, users: users.size })),
+      top_messages: reacted.slice(0, options.top ?? 10),
+      has_more: history.has_more,
+      response_metadata: history.response_metadata,
+    };
   }
 
-  private async enrichWithUserInfo(obj: any): Promise<any> {
-    if (!obj || typeof obj !== 'object') {
-      return obj;
+  // Standard and custom emoji names from emoji.list. Undefined when the
+  // token lacks emoji:read, in which case no names are suggested.
+  private loadEmojiNames(refresh = false): Promise<Set<string> | undefined> {
+    if (!this.emojiNames || refresh) {
+      this.emojiNames = (async () => {
+        try {
+          const data = await this.request("emoji.list", {
+            query: new URLSearchParams({ include_categories: "true" }),
+          });
+          return new Set([
+            ...Object.keys(data.emoji ?? {}),
+            ...(data.categories ?? []).flatMap((category: any) => category.emoji_names ?? []),
+          ]);
+        } catch (error) {
+          if (error instanceof SlackApiError && error.code === "missing_scope") {
+            return undefined;
+          }
+          throw error;
+        }
+      })();
+      this.emojiNames.catch(() => {
+        this.emojiNames = undefined;
+      });
     }
+    return this.emojiNames;
+  }
 
-    if (Array.isArray(obj)) {
-      return Promise.all(obj.map(item => this.enrichWithUserInfo(item)));
+  // Slack checks emoji names itself and knows aliases such as thumbsup that
+  // emoji.list may not return, so emoji.list is only consulted for
+  // suggestions once Slack has refused a name. It is reloaded once for
+  // newly added custom emoji.
+  private async unknownEmoji(error: unknown, name: string): Promise<never> {
+    if (!(error instanceof SlackApiError && error.code === "invalid_name")) {
+      throw error;
     }
-
-    const enriched = { ...obj };
-
-    // Add user info fields if we have a user ID but missing readable names
-    if (enriched.user && typeof enriched.user === 'string' && 
-        enriched.user.match(/^U[A-Z0-9]+$/) && !enriched.user_display_name) {
-      const userInfo = await this.memoizedGetUser(enriched.user);
-      enriched.user_display_name = userInfo.displayName;
-      enriched.user_username = userInfo.username;
+    const base = name.split("::")[0];
+    let names = await this.loadEmojiNames().catch(() => undefined);
+    if (names && !names.has(base)) {
+      names = await this.loadEmojiNames(true).catch(() => undefined);
     }
+    if (!names || names.has(base)) {
+      throw error;
+    }
+    const similar = [...names].filter((candidate) => candidate.includes(base) || base.includes(candidate));
+    throw new Error(
+      `Unknown emoji ":${base}:".` +
+        (similar.length > 0 ? ` Did you mean ${similar.slice(0, 5).map((candidate) => `:${candidate}:`).join(", ")}?` : ""),
+    );
+  }
 
-    // Recursively process nested objects
-    for (const [key, value] of Object.entries(enriched)) {
-      if (typeof value === 'object') {
-        enriched[key] = await this.enrichWithUserInfo(value);
-      }
+  async getAuthInfo(): Promise<any> {
+    if (!this.authInfo) {
+      this.authInfo = this.request("auth.test");
+      this.authInfo.catch(() => {
+        this.authInfo = undefined;
+      });
     }
+    return this.authInfo;
+  }
 
-    return enriched;
+  // Scopes granted to the token, from the X-OAuth-Scopes header of auth.test
+  async getGrantedScopes(): Promise<string[] | undefined> {
+    await this.getAuthInfo();
+    return this.grantedScopes;
   }
 
-  async getChannels(limit: number = 100, cursor?: string): Promise<any> {
+  // Workspaces of the Enterprise Grid org the token can access
+  async getAuthTeams(): Promise<any[]> {
+    const teams = await this.paginate(
+      "auth.teams.list",
+      new URLSearchParams({ limit: "100" }),
+      "teams",
+    );
+    return teams.map((team) => ({ id: team.id, name: team.name }));
+  }
+
+  private async findMessage(channel_id: string, ts: string): Promise<any> {
+    const cached = (await this.getCache()).get("messages", `${channel_id}/${ts}`);
+    if (cached) {
+      return cached;
+    }
+
     const params = new URLSearchParams({
-      types: "public_channel",
-      exclude_archived: "true",
-      limit: Math.min(limit, 200).toString(),
-      team_id: process.env.SLACK_TEAM_ID!,
+      channel: channel_id,
+      oldest: ts,
+      latest: ts,
+      inclusive: "true",
+      limit: "1",
     });
-
-    if (cursor) {
-      params.append("cursor", cursor);
+    const history = await this.request("conversations.history", { query: params });
+    const message = history.messages?.find((candidate: any) => candidate.ts === ts);
+    if (message) {
+      return message;
     }
 
-    const response = await fetch(
-      `https://slack.com/api/conversations.list?${params}`,
-      { headers: this.headers },
-    );
+    // Thread replies are not part of the channel history
+    params.set("ts", ts);
+    params.set("limit", "2");
+    const replies = await this.request("conversations.replies", { query: params })
+      .catch(() => undefined);
+    return replies?.messages?.find((candidate: any) => candidate.ts === ts);
+  }
 
-    const data = await response.json();
-    return this.convertTimestampsToISO(data);
+  // Editing and deleting is limited to the token owner's own messages, so an
+  // admin token can't be used to rewrite what other people said
+  private async assertOwnMessage(method: string, channel_id: string, ts: string): Promise<void> {
+    const [auth, message] = await Promise.all([
+      this.getAuthInfo(),
+      this.findMessage(channel_id, ts),
+    ]);
+    if (!message) {
+      throw new SlackApiError(method, "message_not_found");
+    }
+    if (message.user !== auth.user_id) {
+      throw new Error(
+        `Message ${ts} was posted by ${message.user ?? message.username ?? "someone else"}, not by the user (${auth.user_id}). Only the user's own messages can be edited or deleted.`,
+      );
+    }
   }
 
-  async postMessage(channel_id: string, text: string): Promise<any> {
-    const response = await fetch("https://slack.com/api/chat.postMessage", {
-      method: "POST",
-      headers: this.headers,
-      body: JSON.stringify({
+  async updateMessage(
+    channel_id: string,
+    ts: string,
+    text: string,
+    options: Pick<MessageOptions, "blocks"> = {},
+  ): Promise<any> {
+    await this.assertOwnMessage("chat.update", channel_id, ts);
+    (await this.getCache()).delete("messages", `${channel_id}/${ts}`);
+    const data = await this.request("chat.update", {
+      body: {
         channel: channel_id,
+        ts: ts,
         text: text,
-        as_user: this.isUserToken
-      }),
+        as_user: this.isUserToken,
+        ...options,
+      },
     });
+    return this.convertTimestampsToISO(data);
+  }
 
-    const data = await response.json();
+  async deleteMessage(channel_id: string, ts: string): Promise<any> {
+    await this.assertOwnMessage("chat.delete", channel_id, ts);
+    (await this.getCache()).delete("messages", `${channel_id}/${ts}`);
+    const data = await this.request("chat.delete", {
+      body: {
+        channel: channel_id,
+        ts: ts,
+        as_user: this.isUserToken,
+      },
+    });
     return this.convertTimestampsToISO(data);
   }
 
-  async postReply(
+  async scheduleMessage(
     channel_id: string,
-    thread_ts: string,
     text: string,
+    post_at: number,
+    thread_ts?: string,
+    options: MessageOptions = {},
   ): Promise<any> {
-    const response = await fetch("https://slack.com/api/chat.postMessage", {
-      method: "POST",
-      headers: this.headers,
-      body: JSON.stringify({
+    const data = await this.request("chat.scheduleMessage", {
+      body: {
         channel: channel_id,
-        thread_ts: thread_ts,
         text: text,
-        as_user: this.isUserToken
-      }),
+        post_at: post_at,
+        thread_ts: thread_ts,
+        ...options,
+      },
+    });
+    return this.convertTimestampsToISO(data);
+  }
+
+  async getScheduledMessages(
+    channel_id?: string,
+    limit: number = 100,
+    cursor?: string,
+  ): Promise<any> {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+      team_id: this.teamId,
     });
 
-    const data = await response.json();
+    if (channel_id) {
+      params.append("channel", channel_id);
+    }
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+
+    const data = await this.request("chat.scheduledMessages.list", { query: params });
     return this.convertTimestampsToISO(data);
   }
 
-  async addReaction(
+  async deleteScheduledMessage(
     channel_id: string,
-    timestamp: string,
-    reaction: string,
+    scheduled_message_id: string,
   ): Promise<any> {
-    const response = await fetch("https://slack.com/api/reactions.add", {
-      method: "POST",
-      headers: this.headers,
-      body: JSON.stringify({
+    const data = await this.request("chat.deleteScheduledMessage", {
+      body: {
         channel: channel_id,
-        timestamp: timestamp,
-        name: reaction,
-      }),
+        scheduled_message_id: scheduled_message_id,
+        as_user: this.isUserToken,
+      },
     });
-
-    const data = await response.json();
     return this.convertTimestampsToISO(data);
   }
 
   async getChannelHistory(
     channel_id: string,
     limit: number = 10,
+    options: ChannelHistoryOptions = {},
   ): Promise<any> {
-    const params = new URLSearchParams({
-      channel: channel_id,
-      limit: limit.toString(),
-    });
+    const params = new URLSearchParams({ channel: channel_id });
 
-    const response = await fetch(
-      `https://slack.com/api/conversations.history?${params}`,
-      { headers: this.headers },
-    );
+    if (options.oldest) {
+      params.append("oldest", parseTimeBound(options.oldest));
+    }
+    if (options.latest) {
+      params.append("latest", parseTimeBound(options.latest));
+    }
+    if (options.inclusive) {
+      params.append("inclusive", "true");
+    }
 
-    const data = await response.json();
-    return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
+    const budget = options.autoPaginate
+      ? options.maxMessages ?? DEFAULT_HISTORY_MESSAGE_BUDGET
+      : limit;
+    const messages: any[] = [];
+    let cursor = options.cursor;
+    let data: any;
+
+    do {
+      const pageParams = new URLSearchParams(params);
+      pageParams.set("limit", Math.min(budget - messages.length, 200).toString());
+      if (cursor) {
+        pageParams.set("cursor", cursor);
+      }
+
+      data = await this.request("conversations.history", { query: pageParams });
+      messages.push(...(data.messages ?? []));
+      cursor = data.response_metadata?.next_cursor || undefined;
+    } while (options.autoPaginate && cursor && messages.length < budget);
+
+    if (options.includeReplies) {
+      for (const message of messages) {
+        if (message.reply_count > 0 && message.thread_ts === message.ts) {
+          const replies = await this.paginate(
+            "conversations.replies",
+            new URLSearchParams({ channel: channel_id, ts: message.ts, limit: "200" }),
+            "messages",
+          );
+          // The first message returned by conversations.replies is the parent
+          message.replies = replies.filter((reply) => reply.ts !== message.ts);
+        }
+      }
+    }
+
+    this.cacheMessages(channel_id, messages);
+    const result = {
+      ...data,
+      messages: messages.slice(0, budget),
+      has_more: Boolean(cursor),
+      response_metadata: cursor ? { next_cursor: cursor } : undefined,
+    };
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(result));
   }
 
   async getThreadReplies(
@@ -464,53 +5145,526 @@ class SlackClient {
       ts: thread_ts,
     });
 
-    if (limit !== undefined) {
-      params.append("limit", Math.min(limit, 1000).toString());
+    if (limit !== undefined) {
+      params.append("limit", Math.min(limit, 1000).toString());
+    }
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+
+    const data = await this.request("conversations.replies", { query: params });
+    this.cacheMessages(channel_id, data.messages ?? []);
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
+  }
+
+  private cacheMessages(channel_id: string, messages: any[]): void {
+    this.getCache().then(
+      (cache) => {
+        const flattened = messages.flatMap((message) => [message, ...(message.replies ?? [])]);
+        cache.setMany("messages", flattened, (message) => `${channel_id}/${message.ts}`);
+      },
+      () => undefined,
+    );
+  }
+
+  async getUsers(limit: number = 100, cursor?: string): Promise<any> {
+    const params = new URLSearchParams({
+      limit: Math.min(limit, 200).toString(),
+      team_id: this.teamId,
+    });
+
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+
+    const data = await this.request("users.list", { query: params });
+    (await this.getCache()).setMany("users", data.members ?? []);
+    return this.convertTimestampsToISO(data);
+  }
+
+  async getUserProfile(user_id: string): Promise<any> {
+    const params = new URLSearchParams({
+      user: user_id,
+      include_labels: "true",
+    });
+
+    const data = await this.request("users.profile.get", { query: params });
+    return this.convertTimestampsToISO(data);
+  }
+
+  // The user's read position in a conversation they are a member of
+  async getLastRead(channel_id: string): Promise<string> {
+    const { channel } = await this.request("conversations.info", {
+      query: new URLSearchParams({ channel: channel_id }),
+    });
+    if (channel.last_read === undefined) {
+      throw new Error(`Not a member of ${channel.name ? `#${channel.name}` : channel_id}, it has no read position`);
+    }
+    return channel.last_read;
+  }
+
+  async markRead(channel_id: string, ts: string): Promise<any> {
+    return this.request("conversations.mark", { body: { channel: channel_id, ts } });
+  }
+
+  // The newest message the user wrote in a thread. Threads have no read
+  // position in the API, so replies after it count as unread.
+  private lastOwnMessage(thread: any[], self: string): string {
+    return thread
+      .filter((message) => message.user === self)
+      .reduce((latest, message) => (Number(message.ts) > Number(latest) ? message.ts : latest), NEVER_READ_TS);
+  }
+
+  // Conversations with messages after the read position and threads with
+  // replies after the user's last message, most unread first
+  async listUnreads(
+    options: {
+      types?: ConversationType[];
+      maxChannels?: number;
+      includeThreads?: boolean;
+      threadsSince?: string;
+      maxThreads?: number;
+    } = {},
+  ): Promise<any> {
+    const { user_id: self } = await this.getAuthInfo();
+    const conversations = await this.paginate(
+      "users.conversations",
+      new URLSearchParams({
+        types: (options.types ?? ["public_channel", "private_channel", "mpim", "im"]).join(","),
+        exclude_archived: "true",
+        limit: "200",
+        team_id: this.teamId,
+      }),
+      "channels",
+    );
+    const checked = conversations.slice(0, options.maxChannels ?? DEFAULT_UNREAD_CHANNELS);
+    const threadsSince = options.includeThreads === false
+      ? undefined
+      : parseTimeBound(options.threadsSince ?? DEFAULT_UNREAD_THREAD_WINDOW);
+
+    const channels: any[] = [];
+    const candidates: { conversation: any; parent: any }[] = [];
+    for (const conversation of checked) {
+      const lastRead = await this.getLastRead(conversation.id);
+      // One page covers both the unread messages and the recent threads
+      const oldest = threadsSince && Number(threadsSince) < Number(lastRead) ? threadsSince : lastRead;
+      const data = await this.request("conversations.history", {
+        query: new URLSearchParams({ channel: conversation.id, oldest, limit: "200" }),
+      });
+      const messages: any[] = data.messages ?? [];
+
+      const unread = messages.filter((message) => Number(message.ts) > Number(lastRead) && message.user !== self);
+      if (unread.length > 0) {
+        const { id, name, user, mpim_participants } = this.withMpimParticipants(conversation);
+        channels.push({
+          id,
+          name,
+          user,
+          mpim_participants,
+          unread_count: unread.length,
+          // More unread messages than one page holds
+          has_more: Boolean(data.has_more) && Number(messages[messages.length - 1].ts) > Number(lastRead),
+          last_read_ts: lastRead,
+          latest_ts: unread[0].ts,
+        });
+      }
+
+      if (threadsSince) {
+        for (const message of messages) {
+          if (
+            message.reply_count > 0 &&
+            message.thread_ts === message.ts &&
+            (message.user === self || message.reply_users?.includes(self))
+          ) {
+            candidates.push({ conversation, parent: message });
+          }
+        }
+      }
+    }
+
+    const threads: any[] = [];
+    const recent = candidates
+      .sort((a, b) => Number(b.parent.latest_reply ?? b.parent.ts) - Number(a.parent.latest_reply ?? a.parent.ts))
+      .slice(0, options.maxThreads ?? DEFAULT_UNREAD_THREADS);
+    for (const { conversation, parent } of recent) {
+      const thread = await this.paginate(
+        "conversations.replies",
+        new URLSearchParams({ channel: conversation.id, ts: parent.ts, limit: "200" }),
+        "messages",
+      );
+      const since = this.lastOwnMessage(thread, self);
+      const unread = thread.filter(
+        (reply) => reply.ts !== parent.ts && Number(reply.ts) > Number(since) && reply.user !== self,
+      );
+      if (unread.length > 0) {
+        threads.push({
+          channel: conversation.id,
+          channel_name: conversation.name,
+          thread_ts: parent.ts,
+          user: parent.user,
+          text: truncateText(parent.text ?? "", 200),
+          unread_replies: unread.length,
+          latest_reply_ts: unread[unread.length - 1].ts,
+        });
+      }
+    }
+
+    channels.sort((a, b) => b.unread_count - a.unread_count);
+    const result = {
+      channels,
+      threads,
+      total_unread:
+        channels.reduce((sum, channel) => sum + channel.unread_count, 0) +
+        threads.reduce((sum, thread) => sum + thread.unread_replies, 0),
+      channels_checked: checked.length,
+      has_more_channels: conversations.length > checked.length,
+    };
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(result));
+  }
+
+  // Messages after the read position, or with thread_ts the replies after
+  // the user's last message in the thread. Oldest first.
+  async getUnreadMessages(
+    channel_id: string,
+    options: { thread_ts?: string; limit?: number; markRead?: boolean } = {},
+  ): Promise<any> {
+    const { user_id: self } = await this.getAuthInfo();
+    const limit = options.limit ?? DEFAULT_UNREAD_MESSAGES;
+
+    if (options.thread_ts) {
+      const thread = await this.paginate(
+        "conversations.replies",
+        new URLSearchParams({ channel: channel_id, ts: options.thread_ts, limit: "200" }),
+        "messages",
+      );
+      this.cacheMessages(channel_id, thread);
+      const since = this.lastOwnMessage(thread, self);
+      const unread = thread.filter(
+        (reply) => reply.ts !== options.thread_ts && Number(reply.ts) > Number(since) && reply.user !== self,
+      );
+      const result = {
+        channel: channel_id,
+        thread_ts: options.thread_ts,
+        since_ts: since === NEVER_READ_TS ? undefined : since,
+        messages: unread.slice(-limit),
+        unread_count: unread.length,
+        has_more: unread.length > limit,
+      };
+      return this.enrichWithUserInfo(this.convertTimestampsToISO(result));
+    }
+
+    const lastRead = await this.getLastRead(channel_id);
+    const history = await this.getChannelHistory(channel_id, limit, {
+      oldest: lastRead,
+      autoPaginate: true,
+      maxMessages: limit,
+    });
+    // History comes newest first
+    const newest = history.messages[0]?.ts;
+    let marked: string | undefined;
+    if (options.markRead && newest && !history.has_more) {
+      const response = await this.markRead(channel_id, newest);
+      marked = response.dry_run ? undefined : newest;
+    }
+    return {
+      channel: channel_id,
+      last_read_ts: lastRead,
+      last_read_ts_iso: new Date(Number(lastRead) * 1000).toISOString(),
+      messages: history.messages.filter((message: any) => message.user !== self).reverse(),
+      has_more: history.has_more,
+      marked_read_ts: marked,
+    };
+  }
+
+  // The ts of the newest message in a channel, or of the newest reply in a
+  // thread, for resource subscriptions
+  async latestActivity(channel_id: string, thread_ts?: string): Promise<string | undefined> {
+    if (thread_ts) {
+      const replies = await this.paginate(
+        "conversations.replies",
+        new URLSearchParams({ channel: channel_id, ts: thread_ts, limit: "200" }),
+        "messages",
+      );
+      return replies.map((reply) => reply.ts).sort((a, b) => Number(b) - Number(a))[0];
+    }
+    const data = await this.request("conversations.history", {
+      query: new URLSearchParams({ channel: channel_id, limit: "1" }),
+    });
+    return data.messages?.[0]?.ts;
+  }
+
+  // Which part of the inbox a buffered event belongs to for the token's user
+  private inboxKind(event: any, self: string): InboxKind | undefined {
+    if (event.type !== "message" || !INBOX_SUBTYPES.includes(event.subtype) || event.user === self) {
+      return undefined;
+    }
+    if (event.channel_type === "im" || event.channel_type === "mpim") {
+      return "dm";
+    }
+    if (typeof event.text === "string" && event.text.includes(`<@${self}>`)) {
+      return "mention";
+    }
+    if (event.thread_ts && event.thread_ts !== event.ts && event.parent_user_id === self) {
+      return "thread_reply";
+    }
+    return undefined;
+  }
+
+  private inboxMessage(event: any, kind?: InboxKind): any {
+    const { blocks, client_msg_id, event_ts, team, type, ...message } = event;
+    return kind ? { kind, ...message } : message;
+  }
+
+  // Unchecked mentions, DMs and thread replies, oldest first. Returned
+  // messages are marked as checked unless peeking.
+  async getInbox(
+    inbox: EventInbox,
+    options: { kinds?: InboxKind[]; limit?: number; peek?: boolean } = {},
+  ): Promise<any> {
+    const { user_id: self, team_id } = await this.getAuthInfo();
+    const pending = inbox.events(team_id).flatMap((buffered) => {
+      const kind = this.inboxKind(buffered.event, self);
+      return !buffered.checked && kind && (!options.kinds || options.kinds.includes(kind))
+        ? [{ buffered, kind }]
+        : [];
+    });
+    const items = pending.slice(0, options.limit ?? DEFAULT_INBOX_LIMIT);
+    if (!options.peek) {
+      for (const { buffered } of items) {
+        buffered.checked = true;
+      }
+    }
+    const data = {
+      messages: items.map(({ buffered, kind }) => this.inboxMessage(buffered.event, kind)),
+      has_more: pending.length > items.length,
+      listening_since: new Date(inbox.startedAt).toISOString(),
+    };
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
+  }
+
+  // Resolves with the first reply by someone else newer than `after`, or
+  // with replied: false once the timeout passes
+  async waitForReply(
+    inbox: EventInbox,
+    channel_id: string,
+    thread_ts: string,
+    after: string,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    const { user_id: self, team_id } = await this.getAuthInfo();
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const reply = inbox.events(team_id).find(({ event }) =>
+        event.type === "message" &&
+        INBOX_SUBTYPES.includes(event.subtype) &&
+        event.channel === channel_id &&
+        event.thread_ts === thread_ts &&
+        event.ts !== thread_ts &&
+        event.user !== self &&
+        Number(event.ts) > Number(after),
+      );
+      if (reply) {
+        reply.checked = true;
+        return this.enrichWithUserInfo(this.convertTimestampsToISO({
+          replied: true,
+          reply: this.inboxMessage(reply.event),
+        }));
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || signal?.aborted) {
+        return { replied: false, channel: channel_id, thread_ts, waited_seconds: Math.round(timeoutMs / 1000) };
+      }
+      await inbox.nextEvent(remaining, signal);
+    }
+  }
+
+  // Uploads with the external upload flow: reserve an upload URL, send the
+  // bytes to it, then complete the upload to share the file
+  async uploadFile(
+    channel_id: string,
+    data: Buffer,
+    filename: string,
+    options: { thread_ts?: string; title?: string; initial_comment?: string; snippet_type?: string } = {},
+  ): Promise<any> {
+    const share = {
+      channel_id,
+      thread_ts: options.thread_ts,
+      initial_comment: options.initial_comment,
+    };
+    // The policy is checked before anything is uploaded, so a refused or
+    // dry-run upload doesn't leave an unshared file behind
+    if (this.policy.dryRun) {
+      return this.request("files.completeUploadExternal", {
+        body: { ...share, files: [{ filename, length: data.length, title: options.title ?? filename }] },
+      });
+    }
+    await this.beginWrite("files.completeUploadExternal", channel_id);
+
+    const params = new URLSearchParams({ filename, length: data.length.toString() });
+    if (options.snippet_type) {
+      params.append("snippet_type", options.snippet_type);
+    }
+    const { upload_url, file_id } = await this.request("files.getUploadURLExternal", { query: params });
+
+    const response = await fetch(upload_url, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: data,
+    });
+    if (!response.ok) {
+      throw new Error(`Uploading ${filename} failed with HTTP ${response.status}`);
+    }
+
+    const completed = await this.request("files.completeUploadExternal", {
+      body: { ...share, files: [{ id: file_id, title: options.title ?? filename }] },
+      authorized: true,
+    });
+    return this.convertTimestampsToISO(completed);
+  }
+
+  async listFiles(
+    options: { channel_id?: string; user_id?: string; types?: FileType[]; after?: string; before?: string } = {},
+    count: number = 20,
+    page: number = 1,
+  ): Promise<any> {
+    const params = new URLSearchParams({
+      count: Math.min(count, 100).toString(),
+      page: page.toString(),
+      team_id: this.teamId,
+    });
+
+    if (options.channel_id) {
+      params.append("channel", options.channel_id);
     }
-    if (cursor) {
-      params.append("cursor", cursor);
+    if (options.user_id) {
+      params.append("user", options.user_id);
+    }
+    if (options.types?.length) {
+      params.append("types", options.types.join(","));
+    }
+    if (options.after) {
+      params.append("ts_from", Math.floor(Number(parseTimeBound(options.after))).toString());
+    }
+    if (options.before) {
+      params.append("ts_to", Math.floor(Number(parseTimeBound(options.before))).toString());
     }
 
-    const response = await fetch(
-      `https://slack.com/api/conversations.replies?${params}`,
-      { headers: this.headers },
-    );
+    const data = await this.request("files.list", { query: params });
+    return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
+  }
 
-    const data = await response.json();
+  async getFileInfo(file_id: string): Promise<any> {
+    const data = await this.request("files.info", {
+      query: new URLSearchParams({ file: file_id }),
+    });
     return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
   }
 
-  async getUsers(limit: number = 100, cursor?: string): Promise<any> {
-    const params = new URLSearchParams({
-      limit: Math.min(limit, 200).toString(),
-      team_id: process.env.SLACK_TEAM_ID!,
+  // Fetches a file's contents from its private URL, which takes the same
+  // token as the Web API
+  async downloadFile(file_id: string): Promise<{ file: any; text?: string; image?: string }> {
+    const { file } = await this.request("files.info", {
+      query: new URLSearchParams({ file: file_id }),
     });
+    const summary = {
+      id: file.id,
+      name: file.name,
+      title: file.title,
+      mimetype: file.mimetype,
+      filetype: file.filetype,
+      size: file.size,
+      permalink: file.permalink,
+    };
 
-    if (cursor) {
-      params.append("cursor", cursor);
+    const isImage = IMAGE_MIMETYPES.includes(file.mimetype);
+    if (!isImage && !isTextFile(file)) {
+      throw new Error(
+        `${file.name} is a ${file.mimetype} file, which can't be returned as text or an image. Open it via its permalink: ${file.permalink}`,
+      );
+    }
+    if (file.size > MAX_DOWNLOAD_BYTES) {
+      throw new Error(
+        `${file.name} is ${file.size} bytes, more than the download limit of ${MAX_DOWNLOAD_BYTES} bytes. Open it via its permalink: ${file.permalink}`,
+      );
+    }
+    const url = file.url_private_download ?? file.url_private;
+    if (!url) {
+      throw new Error(`${file.name} has no downloadable contents (external files are not stored in Slack)`);
     }
 
-    const response = await fetch(`https://slack.com/api/users.list?${params}`, {
-      headers: this.headers,
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${await this.currentToken()}` },
     });
+    if (!response.ok) {
+      throw new Error(`Downloading ${file.name} failed with HTTP ${response.status}`);
+    }
+    // Slack answers with its sign-in page instead of an error when the
+    // token can't read files
+    if (response.headers.get("content-type")?.startsWith("text/html") && file.filetype !== "html") {
+      throw new Error(`Slack did not return ${file.name}. Check that the token has the files:read scope.`);
+    }
 
-    const data = await response.json();
-    return this.convertTimestampsToISO(data);
+    const data = Buffer.from(await response.arrayBuffer());
+    return isImage
+      ? { file: summary, image: data.toString("base64") }
+      : { file: summary, text: data.toString("utf8") };
   }
 
-  async getUserProfile(user_id: string): Promise<any> {
-    const params = new URLSearchParams({
-      user: user_id,
-      include_labels: "true",
-    });
+  // Compiles structured search fields into Slack's modifier syntax. Users
+  // and channels are referenced by ID so renames and lookalike names can't
+  // change what is searched.
+  async buildSearchQuery(fields: SearchQueryFields): Promise<string> {
+    const parts: string[] = [];
 
-    const response = await fetch(
-      `https://slack.com/api/users.profile.get?${params}`,
-      { headers: this.headers },
-    );
+    if (fields.query?.trim()) {
+      parts.push(fields.query.trim());
+    }
+    for (const phrase of (fields.phrases ?? []).map(quoteSearchPhrase).filter(Boolean)) {
+      parts.push(phrase);
+    }
+    for (const term of (fields.exclude ?? []).map(quoteSearchPhrase).filter(Boolean)) {
+      parts.push(`-${term}`);
+    }
+    if (fields.from_user) {
+      const user = await this.resolveUser(fields.from_user);
+      parts.push(`from:<@${user.id}>`);
+    }
+    if (fields.in_channel) {
+      const value = fields.in_channel.trim();
+      // DMs are searched with in:<@U123>, channels with in:<#C123>
+      if (value.startsWith("@") || value.includes("@") || /^<?@?[UW][A-Z0-9]{6,}>?$/.test(value)) {
+        const user = await this.resolveUser(value);
+        parts.push(`in:<@${user.id}>`);
+      } else {
+        const channel = await this.resolveChannel(value);
+        parts.push(`in:<#${channel.id}>`);
+      }
+    }
+    if (fields.with_user) {
+      const user = await this.resolveUser(fields.with_user);
+      parts.push(`with:<@${user.id}>`);
+    }
+    if (fields.before) {
+      parts.push(`before:${parseSearchDate(fields.before)}`);
+    }
+    if (fields.after) {
+      parts.push(`after:${parseSearchDate(fields.after)}`);
+    }
+    if (fields.on) {
+      parts.push(`on:${parseSearchDate(fields.on)}`);
+    }
+    for (const filter of fields.has ?? []) {
+      if (!["link", "reaction", "pin", "file"].includes(filter)) {
+        throw new Error(`Invalid has filter "${filter}". Use link, reaction, pin or file.`);
+      }
+      parts.push(`has:${filter}`);
+    }
+    if (fields.is_thread) {
+      parts.push("is:thread");
+    }
 
-    const data = await response.json();
-    return this.convertTimestampsToISO(data);
+    return parts.join(" ");
   }
 
   async searchMessages(
@@ -524,7 +5678,7 @@ class SlackClient {
     const params = new URLSearchParams({
       query: query,
       count: Math.min(count, 100).toString(),
-      team_id: process.env.SLACK_TEAM_ID!,
+      team_id: this.teamId,
     });
 
     // Default to "*" for cursor-based pagination if no cursor provided
@@ -537,28 +5691,19 @@ class SlackClient {
     if (sort) params.append("sort", sort);
     if (sort_dir) params.append("sort_dir", sort_dir);
 
-    const response = await fetch(
-      `https://slack.com/api/search.messages?${params}`,
-      { headers: this.headers },
-    );
-
-    const data = await response.json();
+    const data = await this.request("search.messages", { query: params });
     return this.enrichWithUserInfo(this.convertTimestampsToISO(data));
   }
 }
 
-async function main() {
-  const token = process.env.SLACK_TOKEN || process.env.SLACK_BOT_TOKEN;
-  const teamId = process.env.SLACK_TEAM_ID;
-
-  if (!token || !teamId) {
-    console.error(
-      "Please set SLACK_TOKEN (or SLACK_BOT_TOKEN) and SLACK_TEAM_ID environment variables",
-    );
-    process.exit(1);
-  }
-
-  console.error("Starting Slack MCP Server...");
+// Builds an MCP server bound to one Slack client. Stdio runs a single
+// instance, the HTTP transport creates one per session.
+function createSlackServer(
+  workspaces: SlackWorkspaces,
+  policy: WritePolicy,
+  // Remote clients must not be able to read files on the server
+  options: { localFiles: boolean; inbox?: EventInbox } = { localFiles: true },
+): Server {
   const server = new Server(
     {
       name: "Slack MCP Server",
@@ -567,82 +5712,709 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
       },
     },
   );
 
-  const slackClient = new SlackClient(token);
+  const eventInbox = () => {
+    if (!options.inbox) {
+      throw new Error("The events listener is not running, set SLACK_SIGNING_SECRET to start it");
+    }
+    return options.inbox;
+  };
 
   server.setRequestHandler(
     CallToolRequestSchema,
-    async (request: CallToolRequest) => {
+    async (request: CallToolRequest, extra) => {
       console.error("Received CallToolRequest:", request);
       try {
         if (!request.params.arguments) {
           throw new Error("No arguments provided");
         }
+        if (policy.readOnly && WRITE_TOOLS.has(request.params.name)) {
+          throw new WritePolicyError(
+            `The server is in read-only mode, ${request.params.name} is not available`,
+          );
+        }
+        if (!policy.allowDestructive && DESTRUCTIVE_TOOLS.has(request.params.name)) {
+          throw new WritePolicyError(
+            `${request.params.name} is destructive and disabled, set SLACK_ALLOW_DESTRUCTIVE=true to enable it`,
+          );
+        }
+        const { workspace } = request.params.arguments as WorkspaceArgs;
+        const slackClient = workspaces.client(workspace);
 
         switch (request.params.name) {
+          case "slack_local_search": {
+            const args = request.params.arguments as unknown as LocalSearchArgs;
+            if (!args.query && !args.from_user && !args.in_channel) {
+              throw new Error("Missing required argument: query, from_user or in_channel");
+            }
+            const response = await slackClient.localSearch(args.query ?? "", args);
+            if (args.format === "compact" || args.format === "markdown") {
+              return {
+                content: [{
+                  type: "text",
+                  text: [
+                    `Local search "${args.query ?? ""}": ${response.matches.length} of ${response.total} matches`,
+                    await slackClient.renderMessages(response.matches, args.format),
+                  ].filter(Boolean).join("\n"),
+                }],
+              };
+            }
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_clear_cache": {
+            const args = request.params.arguments as unknown as ClearCacheArgs;
+            let id: string | undefined;
+            if (args.id) {
+              id = args.kind === "users"
+                ? (await slackClient.resolveUser(args.id)).id
+                : (await slackClient.resolveChannel(args.id)).id;
+            }
+            const response = await slackClient.clearCache(args.kind ?? "all", id, args.warm);
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_list_workspaces": {
+            const response = {
+              default: workspaces.defaultName,
+              workspaces: await workspaces.list(workspace),
+            };
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
           case "slack_list_channels": {
             const args = request.params
               .arguments as unknown as ListChannelsArgs;
             const response = await slackClient.getChannels(
               args.limit,
               args.cursor,
+              args.types,
+              args.member_only,
+              args.include_archived,
             );
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
             };
           }
 
-          case "slack_post_message": {
-            const args = request.params.arguments as unknown as PostMessageArgs;
-            if (!args.channel_id || !args.text) {
+          case "slack_create_channel": {
+            const args = request.params.arguments as unknown as CreateChannelArgs;
+            if (!args.name) {
+              throw new Error("Missing required argument: name");
+            }
+            let response = await slackClient.createChannel(args.name, args.is_private);
+            // Not created in dry-run mode
+            const id = response.channel?.id;
+            if (id && args.topic) {
+              response = { ...response, channel: (await slackClient.setChannelTopic(id, args.topic)).channel };
+            }
+            if (id && args.purpose) {
+              response = { ...response, channel: (await slackClient.setChannelPurpose(id, args.purpose)).channel };
+            }
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_join_channel": {
+            const args = request.params.arguments as unknown as ChannelArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.joinChannel(channel.id);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_leave_channel": {
+            const args = request.params.arguments as unknown as ChannelArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.leaveChannel(channel.id);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_invite_to_channel": {
+            const args = request.params.arguments as unknown as InviteToChannelArgs;
+            if (!args.channel_id || !Array.isArray(args.users) || args.users.length === 0) {
+              throw new Error("Missing required arguments: channel_id and users");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const users: string[] = [];
+            for (const user of args.users) {
+              users.push((await slackClient.resolveUser(user)).id);
+            }
+            const response = await slackClient.inviteToChannel(channel.id, users);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved({ ...response, invited: users }, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_remove_from_channel": {
+            const args = request.params.arguments as unknown as RemoveFromChannelArgs;
+            if (!args.channel_id || !args.user_id) {
+              throw new Error("Missing required arguments: channel_id and user_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const user = await slackClient.resolveUser(args.user_id);
+            const response = await slackClient.removeFromChannel(channel.id, user.id);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                  user_id: { input: args.user_id, id: user.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_set_channel_topic": {
+            const args = request.params.arguments as unknown as SetChannelTopicArgs;
+            if (!args.channel_id || args.topic === undefined) {
+              throw new Error("Missing required arguments: channel_id and topic");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.setChannelTopic(channel.id, args.topic);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_set_channel_purpose": {
+            const args = request.params.arguments as unknown as SetChannelPurposeArgs;
+            if (!args.channel_id || args.purpose === undefined) {
+              throw new Error("Missing required arguments: channel_id and purpose");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.setChannelPurpose(channel.id, args.purpose);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_archive_channel": {
+            const args = request.params.arguments as unknown as ChannelArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.archiveChannel(channel.id);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_unarchive_channel": {
+            const args = request.params.arguments as unknown as ChannelArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.unarchiveChannel(channel.id);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_rename_channel": {
+            const args = request.params.arguments as unknown as RenameChannelArgs;
+            if (!args.channel_id || !args.name) {
+              throw new Error("Missing required arguments: channel_id and name");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.renameChannel(channel.id, args.name);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_get_channel_members": {
+            const args = request.params.arguments as unknown as GetChannelMembersArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.getChannelMembers(channel.id, args.limit, args.cursor);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_post_message": {
+            const args = request.params.arguments as unknown as PostMessageArgs;
+            if (!args.channel_id || !args.text) {
+              throw new Error(
+                "Missing required arguments: channel_id and text",
+              );
+            }
+            const blocks = parseBlocks(args.blocks);
+            const channel = await slackClient.resolveChannel(args.channel_id, { openDm: true });
+            const response = await slackClient.postMessage(
+              channel.id,
+              await slackClient.composeText(args.text, {
+                markdown: args.text_format === "markdown",
+                expandMentions: args.expand_mentions,
+                broadcastMentions: args.broadcast_mentions,
+              }),
+              {
+                blocks,
+                unfurl_links: args.unfurl_links,
+                unfurl_media: args.unfurl_media,
+              },
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_send_dm": {
+            const args = request.params.arguments as unknown as SendDmArgs;
+            if (!Array.isArray(args.users) || args.users.length === 0 || !args.text) {
+              throw new Error("Missing required arguments: users and text");
+            }
+            const blocks = parseBlocks(args.blocks);
+            const users: string[] = [];
+            for (const user of args.users) {
+              users.push((await slackClient.resolveUser(user)).id);
+            }
+            const response = await slackClient.sendDm(
+              users,
+              await slackClient.composeText(args.text, {
+                markdown: args.text_format === "markdown",
+                expandMentions: args.expand_mentions,
+                broadcastMentions: args.broadcast_mentions,
+              }),
+              {
+                blocks,
+                unfurl_links: args.unfurl_links,
+                unfurl_media: args.unfurl_media,
+              },
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ ...response, users }),
+              }],
+            };
+          }
+
+          case "slack_get_dm_history": {
+            const args = request.params.arguments as unknown as GetDmHistoryArgs;
+            if (!Array.isArray(args.users) || args.users.length === 0) {
+              throw new Error("Missing required argument: users");
+            }
+            const users: ResolvedUser[] = [];
+            for (const user of args.users) {
+              users.push(await slackClient.resolveUser(user));
+            }
+            // Looked up rather than opened, reading shouldn't create a conversation
+            const channelId = await slackClient.findConversation(users.map((user) => user.id));
+            if (!channelId) {
+              const names = users.map((user) => `@${user.name ?? user.id}`).join(", ");
+              return {
+                content: [{
+                  type: "text",
+                  text: args.format === "compact" || args.format === "markdown"
+                    ? `No DM with ${names} yet`
+                    : JSON.stringify({ ok: true, channel_id: null, users: users.map((user) => user.id), messages: [], has_more: false }),
+                }],
+              };
+            }
+            const response = await slackClient.getChannelHistory(channelId, args.limit, {
+              oldest: args.oldest,
+              latest: args.latest,
+              cursor: args.cursor,
+            });
+            if (args.format === "compact" || args.format === "markdown") {
+              const cursor = response.response_metadata?.next_cursor;
+              return {
+                content: [{
+                  type: "text",
+                  text: [
+                    `DM ${channelId}: ${response.messages.length} messages, oldest first`,
+                    // Slack returns the newest message first, read it top to bottom instead
+                    await slackClient.renderMessages([...response.messages].reverse(), args.format),
+                    cursor ? `Older messages available, next cursor: ${cursor}` : "",
+                  ].filter(Boolean).join("\n"),
+                }],
+              };
+            }
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ ...response, channel_id: channelId, users: users.map((user) => user.id) }),
+              }],
+            };
+          }
+
+          case "slack_reply_to_thread": {
+            const args = request.params
+              .arguments as unknown as ReplyToThreadArgs;
+            if (!args.channel_id || !args.text) {
+              throw new Error(
+                "Missing required arguments: channel_id and text",
+              );
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const threadTs = args.thread_ts ?? channel.thread_ts ?? channel.ts;
+            if (!threadTs) {
+              throw new Error(
+                "Missing required argument: thread_ts (or a message permalink as channel_id)",
+              );
+            }
+            const blocks = parseBlocks(args.blocks);
+            const response = await slackClient.postReply(
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, threadTs),
+              await slackClient.composeText(args.text, {
+                markdown: args.text_format === "markdown",
+                expandMentions: args.expand_mentions,
+                broadcastMentions: args.broadcast_mentions,
+              }),
+              {
+                blocks,
+                unfurl_links: args.unfurl_links,
+                unfurl_media: args.unfurl_media,
+                reply_broadcast: args.reply_broadcast,
+              },
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_add_reaction": {
+            const args = request.params.arguments as unknown as AddReactionArgs;
+            if (!args.channel_id || !args.reaction) {
+              throw new Error(
+                "Missing required arguments: channel_id and reaction",
+              );
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const timestamp = args.timestamp ?? channel.ts;
+            if (!timestamp) {
+              throw new Error(
+                "Missing required argument: timestamp (or a message permalink as channel_id)",
+              );
+            }
+            const response = await slackClient.addReaction(
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, timestamp),
+              emojiName(args.reaction),
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_remove_reaction": {
+            const args = request.params.arguments as unknown as RemoveReactionArgs;
+            if (!args.channel_id || !args.reaction) {
+              throw new Error(
+                "Missing required arguments: channel_id and reaction",
+              );
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const timestamp = args.timestamp ?? channel.ts;
+            if (!timestamp) {
+              throw new Error(
+                "Missing required argument: timestamp (or a message permalink as channel_id)",
+              );
+            }
+            const response = await slackClient.removeReaction(
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, timestamp),
+              emojiName(args.reaction),
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_get_reactions": {
+            const args = request.params.arguments as unknown as GetReactionsArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const timestamp = args.timestamp ?? channel.ts;
+            if (!timestamp) {
+              throw new Error(
+                "Missing required argument: timestamp (or a message permalink as channel_id)",
+              );
+            }
+            const response = await slackClient.getReactions(
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, timestamp),
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_list_reactions": {
+            const args = request.params.arguments as unknown as ListReactionsArgs;
+            const user = args.user_id ? await slackClient.resolveUser(args.user_id) : undefined;
+            const response = await slackClient.listReactions(user?.id, args.limit, args.cursor);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(
+                  user ? withResolved(response, { user_id: { input: args.user_id!, id: user.id } }) : response,
+                ),
+              }],
+            };
+          }
+
+          case "slack_reaction_stats": {
+            const args = request.params.arguments as unknown as ReactionStatsArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.getReactionStats(channel.id, {
+              oldest: args.oldest,
+              latest: args.latest,
+              maxMessages: args.max_messages,
+              includeReplies: args.include_replies,
+              reaction: args.reaction && emojiName(args.reaction).split("::")[0],
+              top: args.top,
+            });
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_update_message": {
+            const args = request.params
+              .arguments as unknown as UpdateMessageArgs;
+            if (!args.channel_id || !args.text) {
+              throw new Error(
+                "Missing required arguments: channel_id and text",
+              );
+            }
+            const blocks = parseBlocks(args.blocks);
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const timestamp = args.timestamp ?? channel.ts;
+            if (!timestamp) {
+              throw new Error(
+                "Missing required argument: timestamp (or a message permalink as channel_id)",
+              );
+            }
+            const response = await slackClient.updateMessage(
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, timestamp),
+              await slackClient.composeText(args.text, {
+                markdown: args.text_format === "markdown",
+                expandMentions: args.expand_mentions,
+                broadcastMentions: args.broadcast_mentions,
+              }),
+              { blocks },
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_delete_message": {
+            const args = request.params
+              .arguments as unknown as DeleteMessageArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const timestamp = args.timestamp ?? channel.ts;
+            if (!timestamp) {
               throw new Error(
-                "Missing required arguments: channel_id and text",
+                "Missing required argument: timestamp (or a message permalink as channel_id)",
               );
             }
-            const response = await slackClient.postMessage(
-              args.channel_id,
-              args.text,
+            const response = await slackClient.deleteMessage(
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, timestamp),
             );
             return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
             };
           }
 
-          case "slack_reply_to_thread": {
+          case "slack_schedule_message": {
             const args = request.params
-              .arguments as unknown as ReplyToThreadArgs;
-            if (!args.channel_id || !args.thread_ts || !args.text) {
+              .arguments as unknown as ScheduleMessageArgs;
+            if (!args.channel_id || !args.text || !args.post_at) {
               throw new Error(
-                "Missing required arguments: channel_id, thread_ts, and text",
+                "Missing required arguments: channel_id, text, and post_at",
               );
             }
-            const response = await slackClient.postReply(
-              args.channel_id,
-              args.thread_ts,
-              args.text,
+            const postAt = parsePostAt(args.post_at);
+            const blocks = parseBlocks(args.blocks);
+            const channel = await slackClient.resolveChannel(args.channel_id, { openDm: true });
+            // As with slack_post_message, a permalink only picks the channel
+            const threadTs = args.thread_ts;
+            const response = await slackClient.scheduleMessage(
+              channel.id,
+              await slackClient.composeText(args.text, {
+                markdown: args.text_format === "markdown",
+                expandMentions: args.expand_mentions,
+                broadcastMentions: args.broadcast_mentions,
+              }),
+              postAt,
+              threadTs && (await slackClient.resolveMessageTs(channel.id, threadTs)),
+              {
+                blocks,
+                unfurl_links: args.unfurl_links,
+                unfurl_media: args.unfurl_media,
+                reply_broadcast: args.reply_broadcast,
+              },
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_list_scheduled_messages": {
+            const args = request.params
+              .arguments as unknown as ListScheduledMessagesArgs;
+            const channel = args.channel_id
+              ? await slackClient.resolveChannel(args.channel_id)
+              : undefined;
+            const response = await slackClient.getScheduledMessages(
+              channel?.id,
+              args.limit,
+              args.cursor,
             );
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
             };
           }
 
-          case "slack_add_reaction": {
-            const args = request.params.arguments as unknown as AddReactionArgs;
-            if (!args.channel_id || !args.timestamp || !args.reaction) {
+          case "slack_delete_scheduled_message": {
+            const args = request.params
+              .arguments as unknown as DeleteScheduledMessageArgs;
+            if (!args.channel_id || !args.scheduled_message_id) {
               throw new Error(
-                "Missing required arguments: channel_id, timestamp, and reaction",
+                "Missing required arguments: channel_id and scheduled_message_id",
               );
             }
-            const response = await slackClient.addReaction(
-              args.channel_id,
-              args.timestamp,
-              args.reaction,
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const response = await slackClient.deleteScheduledMessage(
+              channel.id,
+              args.scheduled_message_id,
             );
             return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
             };
           }
 
@@ -652,31 +6424,87 @@ async function main() {
             if (!args.channel_id) {
               throw new Error("Missing required argument: channel_id");
             }
+            const channel = await slackClient.resolveChannel(args.channel_id);
             const response = await slackClient.getChannelHistory(
-              args.channel_id,
+              channel.id,
               args.limit,
+              {
+                oldest: args.oldest,
+                latest: args.latest,
+                inclusive: args.inclusive,
+                cursor: args.cursor,
+                autoPaginate: args.auto_paginate,
+                maxMessages: args.max_messages,
+                includeReplies: args.include_replies,
+              },
             );
+            if (args.format === "compact" || args.format === "markdown") {
+              // Slack returns the newest message first, read it top to bottom instead
+              const messages = await slackClient.renderMessages(
+                [...response.messages].reverse(),
+                args.format,
+              );
+              const cursor = response.response_metadata?.next_cursor;
+              return {
+                content: [{
+                  type: "text",
+                  text: [
+                    `Channel ${channel.id}: ${response.messages.length} messages, oldest first`,
+                    messages,
+                    cursor ? `Older messages available, next cursor: ${cursor}` : "",
+                  ].filter(Boolean).join("\n"),
+                }],
+              };
+            }
             return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
             };
           }
 
           case "slack_get_thread_replies": {
             const args = request.params
               .arguments as unknown as GetThreadRepliesArgs;
-            if (!args.channel_id || !args.thread_ts) {
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const threadTs = args.thread_ts ?? channel.thread_ts ?? channel.ts;
+            if (!threadTs) {
               throw new Error(
-                "Missing required arguments: channel_id and thread_ts",
+                "Missing required argument: thread_ts (or a message permalink as channel_id)",
               );
             }
             const response = await slackClient.getThreadReplies(
-              args.channel_id,
-              args.thread_ts,
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, threadTs),
               args.limit,
               args.cursor,
             );
+            if (args.format === "compact" || args.format === "markdown") {
+              const cursor = response.response_metadata?.next_cursor;
+              return {
+                content: [{
+                  type: "text",
+                  text: [
+                    `Thread ${response.messages?.[0]?.ts} in channel ${channel.id}: ${response.messages.length} messages`,
+                    await slackClient.renderMessages(response.messages, args.format),
+                    cursor ? `More replies available, next cursor: ${cursor}` : "",
+                  ].filter(Boolean).join("\n"),
+                }],
+              };
+            }
             return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
             };
           }
 
@@ -697,27 +6525,274 @@ async function main() {
             if (!args.user_id) {
               throw new Error("Missing required argument: user_id");
             }
-            const response = await slackClient.getUserProfile(args.user_id);
+            const user = await slackClient.resolveUser(args.user_id);
+            const response = await slackClient.getUserProfile(user.id);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  user_id: { input: args.user_id, id: user.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_digest": {
+            const args = request.params.arguments as unknown as DigestArgs;
+            if (!Array.isArray(args.channels) || args.channels.length === 0) {
+              throw new Error("Missing required argument: channels");
+            }
+            const channels: ResolvedChannel[] = [];
+            for (const input of args.channels) {
+              channels.push(await slackClient.resolveChannel(input));
+            }
+            const response = await slackClient.getDigest(channels, {
+              oldest: args.oldest,
+              latest: args.latest,
+              maxMessages: args.max_messages,
+              tokenBudget: args.token_budget,
+            });
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_list_unreads": {
+            const args = request.params.arguments as unknown as ListUnreadsArgs;
+            const response = await slackClient.listUnreads({
+              types: args.types,
+              maxChannels: args.max_channels,
+              includeThreads: args.include_threads,
+              threadsSince: args.threads_since,
+              maxThreads: args.max_threads,
+            });
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_get_unread_messages": {
+            const args = request.params.arguments as unknown as GetUnreadMessagesArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const threadTs = args.thread_ts ?? channel.thread_ts;
+            if (threadTs && args.mark_read) {
+              throw new Error("mark_read is not available for threads, they have no read position in the Slack API");
+            }
+            if (policy.readOnly && args.mark_read) {
+              throw new WritePolicyError("The server is in read-only mode, mark_read is not available");
+            }
+            const response = await slackClient.getUnreadMessages(channel.id, {
+              thread_ts: threadTs && (await slackClient.resolveMessageTs(channel.id, threadTs)),
+              limit: args.limit,
+              markRead: args.mark_read,
+            });
+            if (args.format === "compact" || args.format === "markdown") {
+              return {
+                content: [{
+                  type: "text",
+                  text: [
+                    `Unread in ${threadTs ? `thread ${response.thread_ts} of ` : ""}${channel.id}: ${response.messages.length} messages, oldest first`,
+                    await slackClient.renderMessages(response.messages, args.format),
+                    response.has_more ? "More unread messages than the limit, older ones were left out" : "",
+                    response.marked_read_ts ? `Marked as read up to ${response.marked_read_ts}` : "",
+                  ].filter(Boolean).join("\n"),
+                }],
+              };
+            }
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_mark_read": {
+            const args = request.params.arguments as unknown as MarkReadArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const ts = args.ts ?? channel.ts ?? (await slackClient.latestActivity(channel.id));
+            if (!ts) {
+              throw new Error(`${args.channel_id} has no messages to mark as read`);
+            }
+            const resolvedTs = await slackClient.resolveMessageTs(channel.id, ts);
+            await slackClient.markRead(channel.id, resolvedTs);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved({ ok: true, channel: channel.id, ts: resolvedTs }, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_get_inbox": {
+            const args = request.params.arguments as unknown as GetInboxArgs;
+            const response = await slackClient.getInbox(eventInbox(), args);
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_wait_for_reply": {
+            const args = request.params.arguments as unknown as WaitForReplyArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const inbox = eventInbox();
+            const channel = await slackClient.resolveChannel(args.channel_id);
+            const threadTs = args.thread_ts ?? channel.thread_ts ?? channel.ts;
+            if (!threadTs) {
+              throw new Error("Missing required argument: thread_ts");
+            }
+            const timeoutSeconds = Math.min(Math.max(args.timeout_seconds ?? DEFAULT_WAIT_SECONDS, 0), MAX_WAIT_SECONDS);
+            const response = await slackClient.waitForReply(
+              inbox,
+              channel.id,
+              await slackClient.resolveMessageTs(channel.id, threadTs),
+              args.after ? normalizeTs(args.after) : (Date.now() / 1000).toFixed(6),
+              timeoutSeconds * 1000,
+              extra.signal,
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_upload_file": {
+            const args = request.params.arguments as unknown as UploadFileArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            if ((args.file_path === undefined) === (args.content === undefined)) {
+              throw new Error("Give either file_path or content");
+            }
+            if (args.file_path !== undefined && !options.localFiles) {
+              throw new Error("file_path is not available over the HTTP transport, pass the file's text as content instead");
+            }
+            const filename = args.filename ?? (args.file_path && basename(args.file_path));
+            if (!filename) {
+              throw new Error("Missing required argument: filename (required with content)");
+            }
+            const channel = await slackClient.resolveChannel(args.channel_id, { openDm: true });
+            const threadTs = args.thread_ts ?? channel.thread_ts ?? channel.ts;
+            const response = await slackClient.uploadFile(
+              channel.id,
+              args.file_path !== undefined ? readFileSync(args.file_path) : Buffer.from(args.content!, "utf8"),
+              filename,
+              {
+                thread_ts: threadTs && (await slackClient.resolveMessageTs(channel.id, threadTs)),
+                title: args.title,
+                initial_comment: args.initial_comment,
+                snippet_type: args.snippet_type,
+              },
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  channel_id: { input: args.channel_id, id: channel.id },
+                })),
+              }],
+            };
+          }
+
+          case "slack_list_files": {
+            const args = request.params.arguments as unknown as ListFilesArgs;
+            const channel = args.channel_id ? await slackClient.resolveChannel(args.channel_id) : undefined;
+            const user = args.user_id ? await slackClient.resolveUser(args.user_id) : undefined;
+            const response = await slackClient.listFiles(
+              {
+                channel_id: channel?.id,
+                user_id: user?.id,
+                types: args.types,
+                after: args.after,
+                before: args.before,
+              },
+              args.count,
+              args.page,
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(withResolved(response, {
+                  ...(channel && { channel_id: { input: args.channel_id!, id: channel.id } }),
+                  ...(user && { user_id: { input: args.user_id!, id: user.id } }),
+                })),
+              }],
+            };
+          }
+
+          case "slack_get_file_info": {
+            const args = request.params.arguments as unknown as GetFileInfoArgs;
+            if (!args.file_id) {
+              throw new Error("Missing required argument: file_id");
+            }
+            const response = await slackClient.getFileInfo(args.file_id);
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
             };
           }
 
+          case "slack_download_file": {
+            const args = request.params.arguments as unknown as DownloadFileArgs;
+            if (!args.file_id) {
+              throw new Error("Missing required argument: file_id");
+            }
+            const { file, text, image } = await slackClient.downloadFile(args.file_id);
+            return {
+              content: [
+                { type: "text", text: JSON.stringify({ file }) },
+                image !== undefined
+                  ? { type: "image", data: image, mimeType: file.mimetype }
+                  : { type: "text", text: text! },
+              ],
+            };
+          }
+
           case "slack_search_messages": {
             const args = request.params.arguments as unknown as SearchMessagesArgs;
-            if (!args.query) {
-              throw new Error("Missing required argument: query");
+            const query = await slackClient.buildSearchQuery(args);
+            if (!query) {
+              throw new Error("Missing required argument: query, or at least one search field");
             }
             const response = await slackClient.searchMessages(
-              args.query,
+              query,
               args.count,
               args.cursor,
               args.highlight,
               args.sort,
               args.sort_dir,
             );
+            if (args.format === "compact" || args.format === "markdown") {
+              const matches = response.messages?.matches ?? [];
+              const cursor = response.messages?.pagination?.next_cursor;
+              return {
+                content: [{
+                  type: "text",
+                  text: [
+                    `Search "${query}": ${matches.length} of ${response.messages?.total ?? matches.length} matches`,
+                    await slackClient.renderMessages(matches, args.format),
+                    cursor ? `More results available, next cursor: ${cursor}` : "",
+                  ].filter(Boolean).join("\n"),
+                }],
+              };
+            }
             return {
-              content: [{ type: "text", text: JSON.stringify(response) }],
+              content: [{ type: "text", text: JSON.stringify({ ...response, compiled_query: query }) }],
             };
           }
 
@@ -730,38 +6805,611 @@ async function main() {
           content: [
             {
               type: "text",
-              text: JSON.stringify({
-                error: error instanceof Error ? error.message : String(error),
-              }),
+              text: JSON.stringify(
+                error instanceof SlackApiError
+                  ? error.toJSON()
+                  : error instanceof WritePolicyError
+                    ? { error: error.message, kind: "policy" }
+                    : { error: error instanceof Error ? error.message : String(error) },
+              ),
             },
           ],
+          isError: true,
         };
       }
     },
   );
 
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+
+  // The user's conversations in the default workspace, a page at a time
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const data = await workspaces.client().getChannels(
+      200,
+      request.params?.cursor,
+      ["public_channel", "private_channel", "mpim", "im"],
+      true,
+    );
+    const resources: Resource[] = data.channels.map((channel: any) => ({
+      uri: `slack://channel/${channel.id}`,
+      name: channel.is_im
+        ? `DM with @${channel.user_username ?? channel.user}`
+        : channel.is_mpim && channel.mpim_participants
+          ? `Group DM with ${channel.mpim_participants.map((name: string) => `@${name}`).join(", ")}`
+          : `#${channel.name}`,
+      description: channel.purpose?.value || channel.topic?.value || undefined,
+      mimeType: "text/markdown",
+    }));
+    return { resources, nextCursor: data.response_metadata?.next_cursor || undefined };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const resource = parseResourceUri(uri);
+    const slackClient = workspaces.client(resource.workspace);
+
+    if (resource.kind === "user") {
+      const user = await slackClient.resolveUser(resource.user);
+      const profile = await slackClient.getUserProfile(user.id);
+      return {
+        contents: [{ uri, mimeType: "application/json", text: JSON.stringify({ id: user.id, ...profile }) }],
+      };
+    }
+
+    const channel = await slackClient.resolveChannel(resource.channel);
+    const title = channel.name ? `#${channel.name}` : channel.id;
+    let text: string;
+    if (resource.kind === "thread") {
+      const thread = await slackClient.getThreadReplies(
+        channel.id,
+        await slackClient.resolveMessageTs(channel.id, resource.ts),
+      );
+      text = `# Thread in ${title}\n\n${await slackClient.renderMessages(thread.messages ?? [], "markdown")}`;
+    } else {
+      const history = await slackClient.getChannelHistory(channel.id, 50);
+      // History comes newest first
+      const messages = [...history.messages].reverse();
+      text = `# ${title}\n\n${await slackClient.renderMessages(messages, "markdown")}`;
+    }
+    return { contents: [{ uri, mimeType: "text/markdown", text }] };
+  });
+
+  // Subscribed channels and threads are polled for new messages. Maps each
+  // URI to the newest ts seen.
+  const subscriptions = new Map<string, string | undefined>();
+  const pollMs = (Number(process.env.SLACK_RESOURCE_POLL_SECONDS) || DEFAULT_RESOURCE_POLL_SECONDS) * 1000;
+  let pollTimer: NodeJS.Timeout | undefined;
+
+  const latestActivity = async (uri: string) => {
+    const resource = parseResourceUri(uri);
+    if (resource.kind === "user") {
+      throw new Error("Only channel and thread resources support subscriptions");
+    }
+    const slackClient = workspaces.client(resource.workspace);
+    const channel = await slackClient.resolveChannel(resource.channel);
+    return slackClient.latestActivity(
+      channel.id,
+      resource.kind === "thread" ? await slackClient.resolveMessageTs(channel.id, resource.ts) : undefined,
+    );
+  };
+
+  const poll = async () => {
+    for (const [uri, seen] of subscriptions) {
+      try {
+        const latest = await latestActivity(uri);
+        if (latest !== seen && subscriptions.has(uri)) {
+          subscriptions.set(uri, latest);
+          await server.sendResourceUpdated({ uri });
+        }
+      } catch (error) {
+        console.error(`Error polling ${uri}:`, error);
+      }
+    }
+    schedulePoll();
+  };
+
+  const schedulePoll = () => {
+    pollTimer = subscriptions.size > 0 ? setTimeout(poll, pollMs).unref() : undefined;
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.set(uri, await latestActivity(uri));
+    if (!pollTimer) {
+      schedulePoll();
+    }
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.onclose = () => {
+    subscriptions.clear();
+    clearTimeout(pollTimer);
+  };
+
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     console.error("Received ListToolsRequest");
+    const tools = [
+      listWorkspacesTool,
+      listChannelsTool,
+      getChannelMembersTool,
+      createChannelTool,
+      joinChannelTool,
+      leaveChannelTool,
+      inviteToChannelTool,
+      removeFromChannelTool,
+      setChannelTopicTool,
+      setChannelPurposeTool,
+      archiveChannelTool,
+      unarchiveChannelTool,
+      renameChannelTool,
+      postMessageTool,
+      sendDmTool,
+      getDmHistoryTool,
+      replyToThreadTool,
+      addReactionTool,
+      removeReactionTool,
+      getReactionsTool,
+      listReactionsTool,
+      reactionStatsTool,
+      updateMessageTool,
+      deleteMessageTool,
+      scheduleMessageTool,
+      listScheduledMessagesTool,
+      deleteScheduledMessageTool,
+      getChannelHistoryTool,
+      getThreadRepliesTool,
+      getUsersTool,
+      getUserProfileTool,
+      searchMessagesTool,
+      digestTool,
+      listUnreadsTool,
+      getUnreadMessagesTool,
+      markReadTool,
+      getInboxTool,
+      waitForReplyTool,
+      uploadFileTool,
+      listFilesTool,
+      getFileInfoTool,
+      downloadFileTool,
+      localSearchTool,
+      clearCacheTool,
+    ];
     return {
-      tools: [
-        listChannelsTool,
-        postMessageTool,
-        replyToThreadTool,
-        addReactionTool,
-        getChannelHistoryTool,
-        getThreadRepliesTool,
-        getUsersTool,
-        getUserProfileTool,
-        searchMessagesTool,
-      ],
+      tools: tools
+        .filter((tool) => !policy.readOnly || !WRITE_TOOLS.has(tool.name))
+        .filter((tool) => policy.allowDestructive || !DESTRUCTIVE_TOOLS.has(tool.name))
+        .map(withWorkspaceProperty),
     };
   });
 
+  return server;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function bearerToken(req: IncomingMessage): string | undefined {
+  return /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "")?.[1];
+}
+
+interface HttpSession {
+  transport: SSEServerTransport;
+  token: string;
+}
+
+// Serves MCP over SSE. Every session brings its own Slack user token and
+// team ID, and gets its own SlackClient so caches are never shared.
+async function runHttpServer(policy: WritePolicy, port: number, host: string) {
+  const sessions = new Map<string, HttpSession>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+
+      if (req.method === "GET" && url.pathname === "/health") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === "/sse") {
+        const token = bearerToken(req);
+        const teamId = req.headers["x-slack-team-id"];
+        if (!token || typeof teamId !== "string") {
+          sendJson(res, 401, {
+            error: "Send your Slack user token as 'Authorization: Bearer xoxp-...' and your team ID as 'X-Slack-Team-Id'",
+          });
+          return;
+        }
+
+        const workspaces = new SlackWorkspaces([{ name: "default", token, teamId }], policy, "default");
+        try {
+          const auth = await workspaces.client().getAuthInfo();
+          if (auth.team_id !== teamId) {
+            sendJson(res, 403, { error: `The token belongs to team ${auth.team_id}, not ${teamId}` });
+            return;
+          }
+        } catch (error) {
+          sendJson(res, 401, error instanceof SlackApiError ? error.toJSON() : { error: String(error) });
+          return;
+        }
+
+        const transport = new SSEServerTransport("/messages", res);
+        sessions.set(transport.sessionId, { transport, token });
+        res.on("close", () => sessions.delete(transport.sessionId));
+        console.error(`Opened session ${transport.sessionId} for team ${teamId}`);
+        await createSlackServer(workspaces, policy, { localFiles: false }).connect(transport);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === "/messages") {
+        const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+        if (!session) {
+          sendJson(res, 404, { error: "Unknown session" });
+          return;
+        }
+        // Clients that repeat the Authorization header must send the token the session was opened with
+        const token = bearerToken(req);
+        if (token && token !== session.token) {
+          sendJson(res, 403, { error: "The token does not match the session" });
+          return;
+        }
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(port, host, resolve));
+  const address = httpServer.address() as AddressInfo;
+  console.error(
+    `Slack MCP Server listening on http://${host}:${address.port} (SSE at /sse, health at /health)`,
+  );
+}
+
+interface BufferedEvent {
+  team_id: string;
+  event_id: string;
+  event: any;
+  checked: boolean;
+}
+
+// Events API deliveries, buffered in memory while the server runs. Slack
+// retries deliveries that were not acknowledged in time, so events are
+// deduplicated by ID.
+class EventInbox {
+  readonly startedAt = Date.now();
+  private buffered: BufferedEvent[] = [];
+  private eventIds = new Set<string>();
+  private waiters = new Set<() => void>();
+
+  add(team_id: string, event_id: string, event: any): void {
+    if (this.eventIds.has(event_id)) {
+      return;
+    }
+    this.eventIds.add(event_id);
+    this.buffered.push({ team_id, event_id, event, checked: false });
+    if (this.buffered.length > MAX_BUFFERED_EVENTS) {
+      this.eventIds.delete(this.buffered.shift()!.event_id);
+    }
+    for (const wake of this.waiters) {
+      wake();
+    }
+  }
+
+  events(team_id: string): BufferedEvent[] {
+    return this.buffered.filter((buffered) => buffered.team_id === team_id);
+  }
+
+  // Resolves when the next event arrives, the timeout passes or the signal aborts
+  nextEvent(timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", wake);
+        this.waiters.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+      signal?.addEventListener("abort", wake);
+      this.waiters.add(wake);
+    });
+  }
+}
+
+// Checks X-Slack-Signature, see https://api.slack.com/authentication/verifying-requests-from-slack
+function verifySlackSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_EVENT_AGE_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(
+    `v0=${createHmac("sha256", secret).update(`v0:${timestamp}:${body}`).digest("hex")}`,
+  );
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Receives Events API deliveries at /slack/events. Slack needs a public
+// HTTPS request URL, so put the listener behind a tunnel or reverse proxy.
+async function runEventListener(inbox: EventInbox, signingSecret: string, port: number, host: string) {
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (req.method !== "POST" || url.pathname !== "/slack/events") {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_EVENT_BODY_BYTES) {
+          sendJson(res, 413, { error: "Request body too large" });
+          return;
+        }
+        chunks.push(chunk);
+      }
+      const body = Buffer.concat(chunks).toString("utf8");
+
+      const timestamp = req.headers["x-slack-request-timestamp"];
+      const signature = req.headers["x-slack-signature"];
+      if (
+        typeof timestamp !== "string" ||
+        typeof signature !== "string" ||
+        !verifySlackSignature(signingSecret, timestamp, body, signature)
+      ) {
+        sendJson(res, 401, { error: "Invalid request signature" });
+        return;
+      }
+
+      const payload = JSON.parse(body);
+      if (payload.type === "url_verification") {
+        sendJson(res, 200, { challenge: payload.challenge });
+        return;
+      }
+      if (payload.type === "event_callback" && payload.event) {
+        inbox.add(payload.team_id, payload.event_id, payload.event);
+      }
+      res.writeHead(200).end();
+    } catch (error) {
+      console.error("Error handling Slack event:", error);
+      if (!res.headersSent) {
+        sendJson(res, 400, { error: "Invalid request" });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(port, host, resolve));
+  // Events must not keep the process alive once the MCP client disconnects
+  httpServer.unref();
+  const address = httpServer.address() as AddressInfo;
+  console.error(`Slack events listener on http://${host}:${address.port}/slack/events`);
+}
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+// Waits for Slack to redirect the browser back with an authorization code
+function waitForAuthorizationCode(redirectUri: URL, state: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const listener = createHttpServer((req, res) => {
+      const url = new URL(req.url ?? "/", redirectUri);
+      if (url.pathname !== redirectUri.pathname) {
+        res.writeHead(404).end();
+        return;
+      }
+      const finish = (status: number, message: string, outcome: () => void) => {
+        res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8", Connection: "close" }).end(message);
+        listener.close();
+        outcome();
+      };
+      if (url.searchParams.get("state") !== state) {
+        res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" }).end("Unexpected state, ignoring this request.");
+        return;
+      }
+      const error = url.searchParams.get("error");
+      const code = url.searchParams.get("code");
+      if (error || !code) {
+        finish(400, `Slack sign-in failed: ${error ?? "no code"}. You can close this window.`, () =>
+          reject(new Error(`Slack sign-in failed: ${error ?? "no authorization code"}`)),
+        );
+        return;
+      }
+      finish(200, "Signed in to Slack. You can close this window.", () => resolve(code));
+    });
+    listener.on("error", reject);
+    listener.listen(Number(redirectUri.port || 80), redirectUri.hostname);
+  });
+}
+
+// `slack-user-mcp login [--workspace <name>] [--team <team ID>]` runs the
+// OAuth v2 flow for a user token and stores it in the credential store
+async function runLogin(args: string[]): Promise<void> {
+  const clientId = process.env.SLACK_CLIENT_ID;
+  const clientSecret = process.env.SLACK_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error(
+      "Set SLACK_CLIENT_ID and SLACK_CLIENT_SECRET to the credentials from your Slack app's Basic Information page",
+    );
+  }
+  const apiBaseUrl = process.env.SLACK_API_BASE_URL || "https://slack.com/api";
+  const redirectUri = new URL(process.env.SLACK_OAUTH_REDIRECT_URI || "http://localhost:3118/oauth/callback");
+  const state = randomBytes(16).toString("hex");
+
+  const authorizeUrl = new URL(`${apiBaseUrl.replace(/\/api\/?$/, "")}/oauth/v2/authorize`);
+  authorizeUrl.searchParams.set("client_id", clientId);
+  authorizeUrl.searchParams.set("user_scope", USER_SCOPES.join(","));
+  authorizeUrl.searchParams.set("redirect_uri", redirectUri.href);
+  authorizeUrl.searchParams.set("state", state);
+  const team = optionValue(args, "--team");
+  if (team) {
+    authorizeUrl.searchParams.set("team", team);
+  }
+
+  const code = waitForAuthorizationCode(redirectUri, state);
+  console.error(`Open this URL in your browser to sign in to Slack:\n\n${authorizeUrl.href}\n`);
+  console.error(`Waiting for Slack to redirect to ${redirectUri.href} ...`);
+
+  const data = await oauthAccess(apiBaseUrl, {
+    code: await code,
+    client_id: clientId,
+    client_secret: clientSecret,
+    redirect_uri: redirectUri.href,
+  });
+  const user = data.authed_user;
+  if (!user?.access_token) {
+    throw new Error("Slack did not return a user token. Add the scopes under \"User Token Scopes\", not \"Bot Token Scopes\".");
+  }
+
+  const name =
+    optionValue(args, "--workspace") ??
+    String(data.team?.name ?? data.team?.id).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  const scopes = String(user.scope ?? "").split(",").filter(Boolean);
+  new CredentialStore(dataDir(), apiBaseUrl).save(name, {
+    team_id: data.team?.id,
+    team_name: data.team?.name,
+    user_id: user.id,
+    scopes,
+    access_token: user.access_token,
+    refresh_token: user.refresh_token,
+    expires_at: user.expires_in ? Date.now() + user.expires_in * 1000 : undefined,
+    client_id: clientId,
+    client_secret: clientSecret,
+  });
+
+  console.error(
+    `Signed in to ${data.team?.name ?? data.team?.id} as ${user.id}. Saved as workspace "${name}" in ${dataDir()}.`,
+  );
+  const notGranted = USER_SCOPES.filter((scope) => !scopes.includes(scope));
+  if (notGranted.length > 0) {
+    console.error(`These scopes were not granted, some tools will not work: ${notGranted.join(", ")}`);
+  }
+}
+
+// `slack-user-mcp sync [--workspace <name>] [--since <time>] [--all] [<channel>...]`
+// pulls new messages of the given channels into the local index. Without
+// channels it updates the channels synced before; --all adds every channel
+// the user is a member of.
+async function runSync(args: string[]): Promise<void> {
+  const configs = loadWorkspaces();
+  if (configs.length === 0) {
+    throw new Error("No workspace is configured. Set SLACK_TOKEN and SLACK_TEAM_ID or run `slack-user-mcp login`.");
+  }
+  const policy = loadWritePolicy();
+  const slackClient = new SlackWorkspaces(configs, policy).client(optionValue(args, "--workspace"));
+
+  const inputs = args.filter(
+    (arg, index) => !arg.startsWith("--") && !["--workspace", "--since"].includes(args[index - 1]),
+  );
+  const channels: ResolvedChannel[] = [];
+  for (const input of inputs) {
+    channels.push(await slackClient.resolveChannel(input));
+  }
+  if (args.includes("--all")) {
+    let cursor: string | undefined;
+    do {
+      const page = await slackClient.getChannels(200, cursor, undefined, true);
+      channels.push(...page.channels.map((channel: any) => ({ id: channel.id, name: channel.name })));
+      cursor = page.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+  }
+  if (channels.length === 0) {
+    channels.push(...(await slackClient.syncedChannels()).map((id) => ({ id })));
+  }
+  if (channels.length === 0) {
+    throw new Error("Name the channels to sync, e.g. `slack-user-mcp sync #general #releases`, or pass --all");
+  }
+
+  for (const channel of channels) {
+    const { name, new_messages } = await slackClient.syncChannel(
+      channel.id,
+      channel.name,
+      optionValue(args, "--since"),
+    );
+    console.error(`${name ? `#${name}` : channel.id}: ${new_messages} new messages`);
+  }
+}
+
+async function main() {
+  if (process.argv[2] === "login") {
+    await runLogin(process.argv.slice(3));
+    return;
+  }
+  if (process.argv[2] === "sync") {
+    await runSync(process.argv.slice(3));
+    return;
+  }
+
+  const policy = loadWritePolicy();
+  const transportIndex = process.argv.indexOf("--transport");
+  const transportName =
+    (transportIndex !== -1 ? process.argv[transportIndex + 1] : undefined) ??
+    process.env.MCP_TRANSPORT ??
+    "stdio";
+
+  if (transportName === "http" || transportName === "sse") {
+    console.error("Starting Slack MCP Server...");
+    await runHttpServer(
+      policy,
+      Number(process.env.PORT ?? 3000),
+      process.env.HOST ?? "127.0.0.1",
+    );
+    return;
+  }
+  if (transportName !== "stdio") {
+    throw new Error(`Unknown transport "${transportName}", use stdio or http`);
+  }
+
+  const workspaces = loadWorkspaces();
+  if (workspaces.length === 0) {
+    console.error(
+      "Please set SLACK_TOKEN (or SLACK_BOT_TOKEN) and SLACK_TEAM_ID environment variables, configure workspaces with SLACK_WORKSPACES or SLACK_WORKSPACES_FILE, or run `slack-user-mcp login`",
+    );
+    process.exit(1);
+  }
+
+  console.error("Starting Slack MCP Server...");
+  const slackWorkspaces = new SlackWorkspaces(workspaces, policy);
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  const inbox = signingSecret ? new EventInbox() : undefined;
+  const server = createSlackServer(slackWorkspaces, policy, { localFiles: true, inbox });
+  if (signingSecret) {
+    await runEventListener(
+      inbox!,
+      signingSecret,
+      Number(process.env.SLACK_EVENTS_PORT ?? DEFAULT_EVENTS_PORT),
+      process.env.SLACK_EVENTS_HOST ?? "127.0.0.1",
+    );
+  }
+
+  // Exit normally on signals so the cache is saved
+  for (const signal of ["SIGINT", "SIGTERM"]) {
+    process.on(signal, () => process.exit(0));
+  }
+
   const transport = new StdioServerTransport();
   console.error("Connecting server to transport...");
   await server.connect(transport);
 
   console.error("Slack MCP Server running on stdio");
+  await slackWorkspaces.verifyScopes();
 }
 
 main().catch((error) => {
@@ -0,0 +1,1135 @@
+// A local stand-in for the Slack Web API, serving a fixture workspace so the
+// server can be tested end to end without a live workspace. Only the methods
+// and arguments the server uses are implemented.
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { FixtureChannel, FixtureFile, FixtureWorkspace } from "./fixtures.js";
+
+type Params = Record<string, any>;
+
+interface Context {
+  token: string;
+  userId: string;
+  scopes: string[];
+}
+
+// Thrown by method handlers to answer with { ok: false, error }
+class SlackError extends Error {
+  constructor(
+    readonly code: string,
+    readonly extra: Record<string, unknown> = {},
+  ) {
+    super(code);
+  }
+}
+
+const METHOD_SCOPES: Record<string, string> = {
+  "chat.delete": "chat:write",
+  "chat.deleteScheduledMessage": "chat:write",
+  "chat.postMessage": "chat:write",
+  "chat.scheduleMessage": "chat:write",
+  "chat.scheduledMessages.list": "chat:write",
+  "chat.update": "chat:write",
+  "conversations.open": "im:write",
+  "emoji.list": "emoji:read",
+  "files.completeUploadExternal": "files:write",
+  "files.getUploadURLExternal": "files:write",
+  "files.info": "files:read",
+  "files.list": "files:read",
+  "reactions.add": "reactions:write",
+  "reactions.get": "reactions:read",
+  "reactions.list": "reactions:read",
+  "reactions.remove": "reactions:write",
+  "search.messages": "search:read",
+  "users.info": "users:read",
+  "users.list": "users:read",
+  "users.lookupByEmail": "users:read.email",
+  "users.profile.get": "users.profile:read",
+};
+
+// The standard emoji emoji.list knows about, a small sample
+const STANDARD_EMOJI = ["+1", "eyes", "rocket", "tada", "wave", "white_check_mark"];
+
+// Names reactions accept that emoji.list doesn't return
+const EMOJI_ALIASES = ["thumbsup", "thumbs_up"];
+
+function channelType(conversation: Record<string, any>): string {
+  if (conversation.is_im) return "im";
+  if (conversation.is_mpim) return "mpim";
+  if (conversation.is_private) return "private_channel";
+  return "public_channel";
+}
+
+const READ_SCOPES: Record<string, string> = {
+  public_channel: "channels:read",
+  private_channel: "groups:read",
+  im: "im:read",
+  mpim: "mpim:read",
+};
+
+const WRITE_SCOPES: Record<string, string> = {
+  public_channel: "channels:write",
+  private_channel: "groups:write",
+  im: "im:write",
+  mpim: "mpim:write",
+};
+
+const HISTORY_SCOPES: Record<string, string> = {
+  public_channel: "channels:history",
+  private_channel: "groups:history",
+  im: "im:history",
+  mpim: "mpim:history",
+};
+
+function page<T>(items: T[], params: Params, defaultLimit = 100): { items: T[]; nextCursor: string } {
+  let offset = 0;
+  if (params.cursor && params.cursor !== "*") {
+    const decoded = /^offset:(\d+)$/.exec(Buffer.from(params.cursor, "base64").toString());
+    if (!decoded) {
+      throw new SlackError("invalid_cursor");
+    }
+    offset = Number(decoded[1]);
+  }
+  const limit = Number(params.limit ?? params.count ?? defaultLimit) || defaultLimit;
+  const next = offset + limit;
+  return {
+    items: items.slice(offset, next),
+    nextCursor: next < items.length ? Buffer.from(`offset:${next}`).toString("base64") : "",
+  };
+}
+
+type SearchFilter = (message: Record<string, any>, channel: FixtureChannel) => boolean;
+
+// Start of a UTC day in seconds, for the date modifiers
+function dayStart(day: string): number {
+  return Date.parse(`${day}T00:00:00Z`) / 1000;
+}
+
+// Understands Slack's search modifiers, with users and channels given as
+// mentions (<@U123>, <#C123>, <#C123|name>) or by name (@jane, #random)
+function parseSearchQuery(query: string, users: Record<string, any>[]): SearchFilter[] {
+  const tokens = query.match(/-?"[^"]*"|\S+/g) ?? [];
+  const userId = (value: string) =>
+    /^<@(\w+)>$/.exec(value)?.[1] ?? users.find((user) => `@${user.name}` === value)?.id;
+  return tokens.map((token): SearchFilter => {
+    const negated = token.startsWith("-") && token.length > 1;
+    const term = (negated ? token.slice(1) : token).replace(/^"|"$/g, "").toLowerCase();
+    if (negated) {
+      return (message) => !message.text.toLowerCase().includes(term);
+    }
+    const [, modifier, value] = /^(\w+):(.+)$/.exec(token) ?? [];
+    const ts = (message: Record<string, any>) => parseFloat(message.ts);
+    switch (modifier) {
+      case "from":
+        return (message) => message.user === userId(value);
+      case "in":
+        return (_message, channel) => {
+          const mention = /^<#(\w+)(?:\|[^>]*)?>$/.exec(value)?.[1];
+          return channel.conversation.is_im
+            ? channel.conversation.user === userId(value)
+            : mention === channel.conversation.id || value === `#${channel.conversation.name}`;
+        };
+      case "with":
+        return (message, channel) =>
+          ((channel.conversation.is_im || channel.conversation.is_mpim) && channel.members.includes(userId(value)!)) ||
+          (message.thread_ts !== undefined &&
+            channel.messages.some((reply) => reply.thread_ts === message.thread_ts && reply.user === userId(value)));
+      case "before":
+        return (message) => ts(message) < dayStart(value);
+      case "after":
+        return (message) => ts(message) >= dayStart(value) + 86400;
+      case "on":
+        return (message) => ts(message) >= dayStart(value) && ts(message) < dayStart(value) + 86400;
+      case "has":
+        return (message) =>
+          value === "link" ? /<https?:/.test(message.text)
+          : value === "reaction" ? Boolean(message.reactions?.length)
+          : value === "pin" ? Boolean(message.pinned_to?.length)
+          : Boolean(message.files?.length);
+      case "is":
+        return (message) => value === "thread" && message.thread_ts !== undefined;
+      default:
+        return (message) => message.text.toLowerCase().includes(term);
+    }
+  });
+}
+
+// Credentials of the Slack app the OAuth flow signs in to
+export const OAUTH_CLIENT_ID = "1111.2222";
+export const OAUTH_CLIENT_SECRET = "fake-client-secret";
+// Lifetime of rotating tokens issued by oauth.v2.access
+const ROTATING_TOKEN_SECONDS = 12 * 60 * 60;
+
+function isTopLevel(message: Record<string, any>): boolean {
+  return !message.thread_ts || message.thread_ts === message.ts || message.subtype === "thread_broadcast";
+}
+
+export class FakeSlack {
+  // Every call received, in order
+  readonly calls: { method: string; params: Params }[] = [];
+  private workspace: FixtureWorkspace;
+  private server?: Server;
+  private rateLimits = new Map<string, { remaining: number; retryAfter: number }>();
+  private failures = new Map<string, { remaining: number; status: number }>();
+  private scheduled: Record<string, any>[] = [];
+  private tsCounter = 0;
+  // Authorization codes and refresh tokens from the OAuth flow, by value
+  private codes = new Map<string, { user: string; scopes: string[]; redirectUri: string }>();
+  private refreshTokens = new Map<string, { user: string; scopes: string[] }>();
+  private expiredTokens = new Set<string>();
+  private oauthCounter = 0;
+  // Reserved by files.getUploadURLExternal, by file ID
+  private uploads = new Map<string, { filename: string; length: number; snippetType?: string; content?: Buffer }>();
+  private fileCounter = 0;
+  private origin = "";
+
+  constructor(fixture: FixtureWorkspace) {
+    this.workspace = structuredClone(fixture);
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        response.writeHead(500).end(String(error));
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.origin = `http://127.0.0.1:${port}`;
+    return `${this.origin}/api`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  // Answer the next `times` calls of a method with HTTP 429
+  rateLimit(method: string, times = 1, retryAfter = 1): void {
+    this.rateLimits.set(method, { remaining: times, retryAfter });
+  }
+
+  // Answer the next `times` calls of a method with an HTTP error status
+  failWithStatus(method: string, status: number, times = 1): void {
+    this.failures.set(method, { remaining: times, status });
+  }
+
+  // Makes every rotating token issued so far answer with token_expired
+  expireRotatingTokens(): void {
+    for (const token of Object.keys(this.workspace.tokens)) {
+      if (token.startsWith("xoxe.")) this.expiredTokens.add(token);
+    }
+  }
+
+  callsTo(method: string): Params[] {
+    return this.calls.filter((call) => call.method === method).map((call) => call.params);
+  }
+
+  channel(id: string): FixtureChannel | undefined {
+    return this.workspace.channels.find((channel) => channel.conversation.id === id);
+  }
+
+  // Posts a message as another user, returning its ts
+  post(channelId: string, message: Record<string, any>, threadTs?: string): string {
+    const ts = this.nextTs();
+    this.addMessage(this.channel(channelId)!, { type: "message", ...message, ts }, threadTs);
+    return ts;
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname === "/oauth/v2/authorize") {
+      this.authorize(url, response);
+      return;
+    }
+    if (url.pathname.startsWith("/upload/")) {
+      await this.receiveUpload(url.pathname.slice("/upload/".length), request, response);
+      return;
+    }
+    if (url.pathname.startsWith("/files-pri/")) {
+      this.serveFile(url.pathname, request, response);
+      return;
+    }
+    const method = url.pathname.replace(/^\/api\//, "");
+
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+    }
+    const params: Params = Object.fromEntries(url.searchParams);
+    if (body) {
+      Object.assign(
+        params,
+        request.headers["content-type"]?.includes("application/json")
+          ? JSON.parse(body)
+          : Object.fromEntries(new URLSearchParams(body)),
+      );
+    }
+    this.calls.push({ method, params });
+
+    const rateLimit = this.rateLimits.get(method);
+    if (rateLimit && rateLimit.remaining > 0) {
+      rateLimit.remaining--;
+      response
+        .writeHead(429, { "Content-Type": "application/json", "Retry-After": String(rateLimit.retryAfter) })
+        .end(JSON.stringify({ ok: false, error: "ratelimited" }));
+      return;
+    }
+    const failure = this.failures.get(method);
+    if (failure && failure.remaining > 0) {
+      failure.remaining--;
+      response.writeHead(failure.status, { "Content-Type": "text/html" }).end("<html>Server error</html>");
+      return;
+    }
+
+    const send = (payload: Record<string, unknown>, headers: Record<string, string> = {}) => {
+      response.writeHead(200, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(payload));
+    };
+
+    if (method === "oauth.v2.access") {
+      try {
+        send({ ok: true, ...this.oauthAccess(params) });
+      } catch (error) {
+        if (!(error instanceof SlackError)) throw error;
+        send({ ok: false, error: error.code });
+      }
+      return;
+    }
+
+    const token = /^Bearer (.+)$/.exec(request.headers.authorization ?? "")?.[1];
+    if (!token) {
+      send({ ok: false, error: "not_authed" });
+      return;
+    }
+    const grant = this.workspace.tokens[token];
+    if (!grant) {
+      send({ ok: false, error: "invalid_auth" });
+      return;
+    }
+    if (this.expiredTokens.has(token)) {
+      send({ ok: false, error: "token_expired" });
+      return;
+    }
+    const context: Context = { token, userId: grant.user, scopes: grant.scopes };
+
+    const handler = this.methods[method];
+    if (!handler) {
+      send({ ok: false, error: "unknown_method" });
+      return;
+    }
+
+    try {
+      const needed = METHOD_SCOPES[method];
+      if (needed && !context.scopes.includes(needed)) {
+        throw new SlackError("missing_scope", { needed, provided: context.scopes.join(",") });
+      }
+      send({ ok: true, ...handler(params, context) }, { "X-OAuth-Scopes": context.scopes.join(",") });
+    } catch (error) {
+      if (error instanceof SlackError) {
+        send({ ok: false, error: error.code, ...error.extra });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  // Signs in the first token's user right away and redirects back with a code
+  private authorize(url: URL, response: ServerResponse): void {
+    const redirectUri = url.searchParams.get("redirect_uri") ?? "";
+    if (url.searchParams.get("client_id") !== OAUTH_CLIENT_ID) {
+      response.writeHead(400).end("invalid_client_id");
+      return;
+    }
+    const [{ user }] = Object.values(this.workspace.tokens);
+    const code = `code-${++this.oauthCounter}`;
+    this.codes.set(code, {
+      user,
+      scopes: (url.searchParams.get("user_scope") ?? "").split(",").filter(Boolean),
+      redirectUri,
+    });
+    const location = new URL(redirectUri);
+    location.searchParams.set("code", code);
+    location.searchParams.set("state", url.searchParams.get("state") ?? "");
+    response.writeHead(302, { Location: location.href }).end();
+  }
+
+  // Issues rotating user tokens for an authorization code or a refresh token
+  private oauthAccess(params: Params) {
+    if (params.client_id !== OAUTH_CLIENT_ID) throw new SlackError("invalid_client_id");
+    if (params.client_secret !== OAUTH_CLIENT_SECRET) throw new SlackError("bad_client_secret");
+
+    let grant: { user: string; scopes: string[] } | undefined;
+    if (params.grant_type === "refresh_token") {
+      grant = this.refreshTokens.get(params.refresh_token);
+      if (!grant) throw new SlackError("invalid_refresh_token");
+      // Refresh tokens can only be used once
+      this.refreshTokens.delete(params.refresh_token);
+    } else {
+      const issued = this.codes.get(params.code);
+      if (!issued) throw new SlackError("invalid_code");
+      if (issued.redirectUri !== params.redirect_uri) throw new SlackError("bad_redirect_uri");
+      this.codes.delete(params.code);
+      grant = issued;
+    }
+
+    const counter = ++this.oauthCounter;
+    const accessToken = `xoxe.xoxp-1-${counter}`;
+    const refreshToken = `xoxe-1-${counter}`;
+    this.workspace.tokens[accessToken] = grant;
+    this.refreshTokens.set(refreshToken, grant);
+    const token = {
+      access_token: accessToken,
+      token_type: "user",
+      scope: grant.scopes.join(","),
+      refresh_token: refreshToken,
+      expires_in: ROTATING_TOKEN_SECONDS,
+    };
+    return params.grant_type === "refresh_token"
+      ? token
+      : {
+          app_id: "AFAKE0001",
+          authed_user: { id: grant.user, ...token },
+          team: { id: this.workspace.team.id, name: this.workspace.team.name },
+          enterprise: null,
+          is_enterprise_install: false,
+        };
+  }
+
+  // Stores the bytes sent to an upload URL
+  private async receiveUpload(id: string, request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const upload = this.uploads.get(id);
+    if (!upload) {
+      response.writeHead(404).end();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk);
+    }
+    upload.content = Buffer.concat(chunks);
+    response.writeHead(200, { "Content-Type": "text/plain" }).end(`OK - ${upload.content.length}`);
+  }
+
+  // Serves a file's private URL. Like Slack, answers a token that can't
+  // read files with the sign-in page rather than an error.
+  private serveFile(pathname: string, request: IncomingMessage, response: ServerResponse): void {
+    const id = /^\/files-pri\/[A-Z0-9]+-([A-Z0-9]+)\//.exec(pathname)?.[1];
+    const token = /^Bearer (.+)$/.exec(request.headers.authorization ?? "")?.[1];
+    const grant = token ? this.workspace.tokens[token] : undefined;
+    const fixture = this.workspace.files?.find((candidate) => candidate.file.id === id);
+    if (!grant || !grant.scopes.includes("files:read") || !fixture) {
+      response.writeHead(200, { "Content-Type": "text/html" }).end("<html>Sign in to Slack</html>");
+      return;
+    }
+    response
+      .writeHead(200, { "Content-Type": fixture.file.mimetype })
+      .end(Buffer.from(fixture.content, "base64"));
+  }
+
+  // A file as files.info returns it, with its private URLs
+  private fileFor(fixture: FixtureFile): Record<string, any> {
+    const { id, name, user } = fixture.file;
+    const url = `${this.origin}/files-pri/${this.workspace.team.id}-${id}`;
+    return {
+      ...fixture.file,
+      url_private: `${url}/${name}`,
+      url_private_download: `${url}/download/${name}`,
+      permalink: `https://${this.workspace.team.domain}.slack.com/files/${user}/${id}/${name}`,
+    };
+  }
+
+  // Files shared in at least one conversation the token owner can see
+  private visibleFiles(context: Context): FixtureFile[] {
+    return (this.workspace.files ?? []).filter((fixture) =>
+      [...fixture.file.channels, ...fixture.file.groups, ...fixture.file.ims].some((id: string) => {
+        try {
+          this.visibleChannel(id, context);
+          return true;
+        } catch {
+          return false;
+        }
+      }),
+    );
+  }
+
+  // Adds a message to a channel, as a reply when threadTs is given
+  private addMessage(channel: FixtureChannel, message: Record<string, any>, threadTs?: string): void {
+    if (threadTs) {
+      const parent = this.findMessage(channel, threadTs);
+      if (parent.thread_ts && parent.thread_ts !== parent.ts) {
+        throw new SlackError("thread_not_found");
+      }
+      parent.thread_ts = parent.ts;
+      parent.reply_count = (parent.reply_count ?? 0) + 1;
+      parent.reply_users = [...new Set([...(parent.reply_users ?? []), message.user])];
+      parent.latest_reply = message.ts;
+      message.thread_ts = parent.ts;
+    }
+    channel.messages.push(message);
+  }
+
+  private nextTs(): string {
+    this.tsCounter++;
+    return `${Math.floor(Date.now() / 1000)}.${String(this.tsCounter).padStart(6, "0")}`;
+  }
+
+  private user(id: string): Record<string, any> {
+    const user = this.workspace.users.find((candidate) => candidate.id === id);
+    if (!user) {
+      throw new SlackError("user_not_found");
+    }
+    return user;
+  }
+
+  // Looks up a conversation the token owner can see
+  private visibleChannel(id: string | undefined, context: Context): FixtureChannel {
+    const channel = id ? this.channel(id) : undefined;
+    if (!channel) {
+      throw new SlackError("channel_not_found");
+    }
+    const type = channelType(channel.conversation);
+    if (type !== "public_channel" && !channel.members.includes(context.userId)) {
+      throw new SlackError("channel_not_found");
+    }
+    return channel;
+  }
+
+  private readableChannel(id: string | undefined, context: Context): FixtureChannel {
+    const channel = this.visibleChannel(id, context);
+    const needed = HISTORY_SCOPES[channelType(channel.conversation)];
+    if (!context.scopes.includes(needed)) {
+      throw new SlackError("missing_scope", { needed, provided: context.scopes.join(",") });
+    }
+    return channel;
+  }
+
+  private writableChannel(id: string | undefined, context: Context): FixtureChannel {
+    const channel = this.visibleChannel(id, context);
+    if (channel.conversation.is_archived) {
+      throw new SlackError("is_archived");
+    }
+    if (!channel.members.includes(context.userId)) {
+      throw new SlackError("not_in_channel");
+    }
+    return channel;
+  }
+
+  // A conversation the token owner wants to change, with the write scope for
+  // its type. Unless `writable` is false, it must be unarchived and joined.
+  private managedChannel(id: string | undefined, context: Context, writable = true): FixtureChannel {
+    const channel = writable ? this.writableChannel(id, context) : this.visibleChannel(id, context);
+    const needed = WRITE_SCOPES[channelType(channel.conversation)];
+    if (!context.scopes.includes(needed)) {
+      throw new SlackError("missing_scope", { needed, provided: context.scopes.join(",") });
+    }
+    return channel;
+  }
+
+  private checkChannelName(name: string | undefined, except?: FixtureChannel): string {
+    if (!name) {
+      throw new SlackError("invalid_name_required");
+    }
+    if (name.length > 80) {
+      throw new SlackError("invalid_name_maxlength");
+    }
+    if (!/^[a-z0-9_-]+$/.test(name)) {
+      throw new SlackError("invalid_name_specials");
+    }
+    if (this.workspace.channels.some((channel) => channel !== except && channel.conversation.name === name)) {
+      throw new SlackError("name_taken");
+    }
+    return name;
+  }
+
+  private findMessage(channel: FixtureChannel, ts: string | undefined): Record<string, any> {
+    const message = channel.messages.find((candidate) => candidate.ts === ts);
+    if (!message) {
+      throw new SlackError("message_not_found");
+    }
+    return message;
+  }
+
+  private conversationFor(channel: FixtureChannel, context: Context): Record<string, any> {
+    return {
+      ...channel.conversation,
+      is_member: channel.members.includes(context.userId),
+      num_members: channel.members.length,
+    };
+  }
+
+  private listConversations(params: Params, context: Context, memberOnly: boolean) {
+    const types = String(params.types ?? "public_channel").split(",");
+    for (const type of types) {
+      if (!context.scopes.includes(READ_SCOPES[type])) {
+        throw new SlackError("missing_scope", { needed: READ_SCOPES[type], provided: context.scopes.join(",") });
+      }
+    }
+    const channels = this.workspace.channels
+      .filter((channel) => types.includes(channelType(channel.conversation)))
+      .filter((channel) => channelType(channel.conversation) === "public_channel" || channel.members.includes(context.userId))
+      .filter((channel) => !memberOnly || channel.members.includes(context.userId))
+      .filter((channel) => params.exclude_archived !== "true" || !channel.conversation.is_archived)
+      .map((channel) => this.conversationFor(channel, context));
+    const { items, nextCursor } = page(channels, params);
+    return { channels: items, response_metadata: { next_cursor: nextCursor } };
+  }
+
+  private methods: Record<string, (params: Params, context: Context) => Record<string, unknown>> = {
+    "auth.test": (_params, context) => ({
+      url: `https://${this.workspace.team.domain}.slack.com/`,
+      team: this.workspace.team.name,
+      user: this.user(context.userId).name,
+      team_id: this.workspace.team.id,
+      user_id: context.userId,
+      ...(this.workspace.enterprise ? { enterprise_id: this.workspace.enterprise.id } : {}),
+    }),
+
+    "auth.teams.list": (params) => {
+      const { items, nextCursor } = page([{ id: this.workspace.team.id, name: this.workspace.team.name }], params);
+      return { teams: items, response_metadata: { next_cursor: nextCursor } };
+    },
+
+    "conversations.list": (params, context) => this.listConversations(params, context, false),
+
+    "users.conversations": (params, context) => this.listConversations(params, context, true),
+
+    "conversations.info": (params, context) => {
+      const channel = this.visibleChannel(params.channel, context);
+      const conversation = this.conversationFor(channel, context);
+      // Read positions are only returned to members
+      if (conversation.is_member) {
+        conversation.last_read = channel.last_read?.[context.userId] ?? "0000000000.000000";
+      }
+      return { channel: conversation };
+    },
+
+    "conversations.mark": (params, context) => {
+      const channel = this.managedChannel(params.channel, context, false);
+      if (!channel.members.includes(context.userId)) {
+        throw new SlackError("not_in_channel");
+      }
+      if (!params.ts || !/^\d+\.\d+$/.test(params.ts)) {
+        throw new SlackError("invalid_timestamp");
+      }
+      (channel.last_read ??= {})[context.userId] = params.ts;
+      return {};
+    },
+
+    "conversations.members": (params, context) => {
+      const { items, nextCursor } = page(this.visibleChannel(params.channel, context).members, params);
+      return { members: items, response_metadata: { next_cursor: nextCursor } };
+    },
+
+    "conversations.create": (params, context) => {
+      const isPrivate = params.is_private === true || params.is_private === "true";
+      const needed = isPrivate ? "groups:write" : "channels:write";
+      if (!context.scopes.includes(needed)) {
+        throw new SlackError("missing_scope", { needed, provided: context.scopes.join(",") });
+      }
+      const name = this.checkChannelName(params.name);
+      const channel: FixtureChannel = {
+        conversation: {
+          id: `${isPrivate ? "G" : "C"}NEW${String(this.workspace.channels.length).padStart(5, "0")}`,
+          name,
+          is_channel: !isPrivate,
+          is_group: isPrivate,
+          is_private: isPrivate,
+          is_archived: false,
+          created: Math.floor(Date.now() / 1000),
+          creator: context.userId,
+          topic: { value: "", creator: "", last_set: 0 },
+          purpose: { value: "", creator: "", last_set: 0 },
+        },
+        members: [context.userId],
+        messages: [],
+      };
+      this.workspace.channels.push(channel);
+      return { channel: this.conversationFor(channel, context) };
+    },
+
+    "conversations.join": (params, context) => {
+      const channel = this.managedChannel(params.channel, context, false);
+      if (channelType(channel.conversation) !== "public_channel") {
+        throw new SlackError("method_not_supported_for_channel_type");
+      }
+      if (channel.conversation.is_archived) {
+        throw new SlackError("is_archived");
+      }
+      const already = channel.members.includes(context.userId);
+      if (!already) {
+        channel.members.push(context.userId);
+      }
+      return { channel: this.conversationFor(channel, context), ...(already ? { warning: "already_in_channel" } : {}) };
+    },
+
+    "conversations.leave": (params, context) => {
+      const channel = this.managedChannel(params.channel, context, false);
+      if (channel.conversation.is_im) {
+        throw new SlackError("method_not_supported_for_channel_type");
+      }
+      if (channel.conversation.is_general) {
+        throw new SlackError("cant_leave_general");
+      }
+      if (!channel.members.includes(context.userId)) {
+        return { not_in_channel: true };
+      }
+      channel.members = channel.members.filter((member) => member !== context.userId);
+      return {};
+    },
+
+    "conversations.invite": (params, context) => {
+      const channel = this.managedChannel(params.channel, context);
+      const users = String(params.users ?? "").split(",").filter(Boolean);
+      if (users.length === 0) {
+        throw new SlackError("no_user");
+      }
+      for (const id of users) {
+        this.user(id);
+        if (id === context.userId) {
+          throw new SlackError("cant_invite_self");
+        }
+        if (channel.members.includes(id)) {
+          throw new SlackError("already_in_channel");
+        }
+      }
+      channel.members.push(...users);
+      return { channel: this.conversationFor(channel, context) };
+    },
+
+    "conversations.kick": (params, context) => {
+      const channel = this.managedChannel(params.channel, context);
+      if (params.user === context.userId) {
+        throw new SlackError("cant_kick_self");
+      }
+      this.user(params.user);
+      if (!channel.members.includes(params.user)) {
+        throw new SlackError("not_in_channel");
+      }
+      channel.members = channel.members.filter((member) => member !== params.user);
+      return {};
+    },
+
+    "conversations.setTopic": (params, context) => {
+      const channel = this.managedChannel(params.channel, context);
+      channel.conversation.topic = { value: params.topic ?? "", creator: context.userId, last_set: Math.floor(Date.now() / 1000) };
+      return { channel: this.conversationFor(channel, context) };
+    },
+
+    "conversations.setPurpose": (params, context) => {
+      const channel = this.managedChannel(params.channel, context);
+      channel.conversation.purpose = { value: params.purpose ?? "", creator: context.userId, last_set: Math.floor(Date.now() / 1000) };
+      return { channel: this.conversationFor(channel, context) };
+    },
+
+    "conversations.archive": (params, context) => {
+      const channel = this.managedChannel(params.channel, context, false);
+      if (channel.conversation.is_im || channel.conversation.is_mpim) {
+        throw new SlackError("method_not_supported_for_channel_type");
+      }
+      if (channel.conversation.is_general) {
+        throw new SlackError("cant_archive_general");
+      }
+      if (channel.conversation.is_archived) {
+        throw new SlackError("already_archived");
+      }
+      if (!channel.members.includes(context.userId)) {
+        throw new SlackError("not_in_channel");
+      }
+      channel.conversation.is_archived = true;
+      return {};
+    },
+
+    "conversations.unarchive": (params, context) => {
+      const channel = this.managedChannel(params.channel, context, false);
+      if (!channel.conversation.is_archived) {
+        throw new SlackError("not_archived");
+      }
+      channel.conversation.is_archived = false;
+      return {};
+    },
+
+    "conversations.rename": (params, context) => {
+      const channel = this.managedChannel(params.channel, context);
+      if (channel.conversation.is_im || channel.conversation.is_mpim) {
+        throw new SlackError("method_not_supported_for_channel_type");
+      }
+      channel.conversation.name = this.checkChannelName(params.name, channel);
+      channel.conversation.name_normalized = channel.conversation.name;
+      return { channel: this.conversationFor(channel, context) };
+    },
+
+    "conversations.open": (params, context) => {
+      const users = String(params.users ?? "").split(",").filter(Boolean);
+      if (users.length === 0) {
+        throw new SlackError("users_list_not_supplied");
+      }
+      users.forEach((id) => this.user(id));
+      const members = [...new Set([context.userId, ...users])].sort();
+      let channel = this.workspace.channels.find(
+        (candidate) =>
+          (candidate.conversation.is_im || candidate.conversation.is_mpim) &&
+          [...candidate.members].sort().join() === members.join(),
+      );
+      if (!channel) {
+        const id = `${members.length > 2 ? "G" : "D"}NEW${String(this.workspace.channels.length).padStart(5, "0")}`;
+        channel = {
+          conversation:
+            members.length > 2
+              ? { id, name: `mpdm-${members.map((member) => this.user(member).name).join("--")}-1`, is_mpim: true, is_group: true, is_private: true }
+              : { id, is_im: true, user: users[0] },
+          members,
+          messages: [],
+        };
+        this.workspace.channels.push(channel);
+      }
+      return { channel: { id: channel.conversation.id } };
+    },
+
+    "conversations.history": (params, context) => {
+      const channel = this.readableChannel(params.channel, context);
+      const inclusive = params.inclusive === "true" || params.inclusive === true;
+      const oldest = params.oldest ? parseFloat(params.oldest) : -Infinity;
+      const latest = params.latest ? parseFloat(params.latest) : Infinity;
+      const messages = channel.messages
+        .filter(isTopLevel)
+        .filter((message) => {
+          const ts = parseFloat(message.ts);
+          return inclusive ? ts >= oldest && ts <= latest : ts > oldest && ts < latest;
+        })
+        .sort((a, b) => parseFloat(b.ts) - parseFloat(a.ts));
+      const { items, nextCursor } = page(messages, params);
+      return {
+        messages: items,
+        has_more: Boolean(nextCursor),
+        response_metadata: { next_cursor: nextCursor },
+      };
+    },
+
+    "conversations.replies": (params, context) => {
+      const channel = this.readableChannel(params.channel, context);
+      const message = channel.messages.find((candidate) => candidate.ts === params.ts);
+      if (!message) {
+        throw new SlackError("thread_not_found");
+      }
+      const threadTs = message.thread_ts ?? message.ts;
+      const inclusive = params.inclusive === "true" || params.inclusive === true;
+      const oldest = params.oldest ? parseFloat(params.oldest) : -Infinity;
+      const latest = params.latest ? parseFloat(params.latest) : Infinity;
+      const thread = channel.messages
+        .filter((candidate) => candidate.ts === threadTs || candidate.thread_ts === threadTs)
+        .filter((candidate) => {
+          const ts = parseFloat(candidate.ts);
+          return inclusive ? ts >= oldest && ts <= latest : ts > oldest && ts < latest;
+        })
+        .sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+      const { items, nextCursor } = page(thread, params, 1000);
+      return {
+        messages: items,
+        has_more: Boolean(nextCursor),
+        response_metadata: { next_cursor: nextCursor },
+      };
+    },
+
+    "chat.postMessage": (params, context) => {
+      const channel = this.writableChannel(params.channel, context);
+      if (!params.text && !params.blocks) {
+        throw new SlackError("no_text");
+      }
+      if (params.text && params.text.length > 40000) {
+        throw new SlackError("msg_too_long");
+      }
+      const message: Record<string, any> = {
+        type: "message",
+        user: context.userId,
+        text: params.text ?? "",
+        ts: this.nextTs(),
+      };
+      if (params.blocks) {
+        message.blocks = typeof params.blocks === "string" ? JSON.parse(params.blocks) : params.blocks;
+      }
+      if (params.thread_ts && params.reply_broadcast) {
+        message.subtype = "thread_broadcast";
+      }
+      this.addMessage(channel, message, params.thread_ts);
+      return { channel: channel.conversation.id, ts: message.ts, message };
+    },
+
+    "chat.update": (params, context) => {
+      const channel = this.writableChannel(params.channel, context);
+      const message = this.findMessage(channel, params.ts);
+      if (message.user !== context.userId) {
+        throw new SlackError("cant_update_message");
+      }
+      message.text = params.text ?? message.text;
+      if (params.blocks) {
+        message.blocks = params.blocks;
+      }
+      message.edited = { user: context.userId, ts: this.nextTs() };
+      return { channel: channel.conversation.id, ts: message.ts, text: message.text, message };
+    },
+
+    "chat.delete": (params, context) => {
+      const channel = this.writableChannel(params.channel, context);
+      const message = this.findMessage(channel, params.ts);
+      if (message.user !== context.userId) {
+        throw new SlackError("cant_delete_message");
+      }
+      channel.messages.splice(channel.messages.indexOf(message), 1);
+      return { channel: channel.conversation.id, ts: message.ts };
+    },
+
+    "chat.scheduleMessage": (params, context) => {
+      const channel = this.writableChannel(params.channel, context);
+      const postAt = Number(params.post_at);
+      if (!Number.isFinite(postAt)) {
+        throw new SlackError("invalid_time");
+      }
+      if (postAt <= Date.now() / 1000) {
+        throw new SlackError("time_in_past");
+      }
+      const scheduled = {
+        id: `Q${String(this.scheduled.length + 1).padStart(8, "0")}`,
+        channel_id: channel.conversation.id,
+        post_at: postAt,
+        date_created: Math.floor(Date.now() / 1000),
+        text: params.text,
+        thread_ts: params.thread_ts,
+      };
+      this.scheduled.push(scheduled);
+      return {
+        channel: channel.conversation.id,
+        scheduled_message_id: scheduled.id,
+        post_at: postAt,
+        message: { type: "message", user: context.userId, text: params.text },
+      };
+    },
+
+    "chat.scheduledMessages.list": (params) => {
+      const messages = this.scheduled.filter((message) => !params.channel || message.channel_id === params.channel);
+      const { items, nextCursor } = page(messages, params);
+      return { scheduled_messages: items, response_metadata: { next_cursor: nextCursor } };
+    },
+
+    "chat.deleteScheduledMessage": (params) => {
+      const index = this.scheduled.findIndex(
+        (message) => message.id === params.scheduled_message_id && message.channel_id === params.channel,
+      );
+      if (index === -1) {
+        throw new SlackError("invalid_scheduled_message_id");
+      }
+      this.scheduled.splice(index, 1);
+      return {};
+    },
+
+    "reactions.add": (params, context) => {
+      const channel = this.readableChannel(params.channel, context);
+      const message = this.findMessage(channel, params.timestamp);
+      const base = String(params.name ?? "").split("::")[0];
+      const known = [...STANDARD_EMOJI, ...EMOJI_ALIASES, ...Object.keys(this.workspace.emoji ?? {})];
+      if (!/^[a-z0-9_+'-]+(::skin-tone-\d)?$/.test(params.name ?? "") || !known.includes(base)) {
+        throw new SlackError("invalid_name");
+      }
+      message.reactions ??= [];
+      let reaction = message.reactions.find((candidate: any) => candidate.name === params.name);
+      if (reaction?.users.includes(context.userId)) {
+        throw new SlackError("already_reacted");
+      }
+      if (!reaction) {
+        reaction = { name: params.name, count: 0, users: [] };
+        message.reactions.push(reaction);
+      }
+      reaction.count++;
+      reaction.users.push(context.userId);
+      return {};
+    },
+
+    "reactions.remove": (params, context) => {
+      const channel = this.readableChannel(params.channel, context);
+      const message = this.findMessage(channel, params.timestamp);
+      const reaction = message.reactions?.find((candidate: any) => candidate.name === params.name);
+      if (!reaction?.users.includes(context.userId)) {
+        throw new SlackError("no_reaction");
+      }
+      reaction.count--;
+      reaction.users = reaction.users.filter((user: string) => user !== context.userId);
+      if (reaction.count === 0) {
+        message.reactions = message.reactions.filter((candidate: any) => candidate !== reaction);
+      }
+      return {};
+    },
+
+    "reactions.get": (params, context) => {
+      const channel = this.readableChannel(params.channel, context);
+      return { type: "message", channel: channel.conversation.id, message: this.findMessage(channel, params.timestamp) };
+    },
+
+    "reactions.list": (params, context) => {
+      const user = params.user ?? context.userId;
+      const items = this.workspace.channels
+        .filter((channel) => channel.members.includes(context.userId))
+        .flatMap((channel) =>
+          channel.messages
+            .filter((message) => message.reactions?.some((reaction: any) => reaction.users.includes(user)))
+            .map((message) => ({ type: "message", channel: channel.conversation.id, message })),
+        )
+        .sort((a, b) => parseFloat(b.message.ts) - parseFloat(a.message.ts));
+      const { items: pageItems, nextCursor } = page(items, params);
+      return { items: pageItems, response_metadata: { next_cursor: nextCursor } };
+    },
+
+    "emoji.list": (params) => ({
+      emoji: this.workspace.emoji ?? {},
+      ...(params.include_categories === "true"
+        ? { categories: [{ name: "standard", emoji_names: STANDARD_EMOJI }] }
+        : {}),
+    }),
+
+    "users.list": (params) => {
+      const { items, nextCursor } = page(this.workspace.users, params);
+      return { members: items, response_metadata: { next_cursor: nextCursor } };
+    },
+
+    "users.info": (params) => ({ user: this.user(params.user) }),
+
+    "users.lookupByEmail": (params) => {
+      const user = this.workspace.users.find((candidate) => candidate.profile?.email === params.email);
+      if (!user) {
+        throw new SlackError("users_not_found");
+      }
+      return { user };
+    },
+
+    "users.profile.get": (params, context) => ({
+      profile: this.user(params.user ?? context.userId).profile,
+    }),
+
+    "files.info": (params, context) => {
+      const fixture = this.visibleFiles(context).find((candidate) => candidate.file.id === params.file);
+      if (!fixture) {
+        throw new SlackError("file_not_found");
+      }
+      return { file: this.fileFor(fixture) };
+    },
+
+    "files.list": (params, context) => {
+      const types = String(params.types ?? "all").split(",");
+      const count = Number(params.count ?? 100);
+      const pageNumber = Number(params.page ?? 1);
+      const files = this.visibleFiles(context)
+        .map((fixture) => fixture.file)
+        .filter((file) => !params.channel || [...file.channels, ...file.groups, ...file.ims].includes(params.channel))
+        .filter((file) => !params.user || file.user === params.user)
+        .filter((file) => !params.ts_from || file.created >= Number(params.ts_from))
+        .filter((file) => !params.ts_to || file.created <= Number(params.ts_to))
+        .filter((file) =>
+          types.some((type) =>
+            type === "all" ||
+            (type === "images" && file.mimetype.startsWith("image/")) ||
+            (type === "snippets" && file.mode === "snippet") ||
+            (type === "pdfs" && file.filetype === "pdf"),
+          ),
+        )
+        .sort((a, b) => b.created - a.created);
+      return {
+        files: files
+          .slice((pageNumber - 1) * count, pageNumber * count)
+          .map((file) => this.fileFor(this.workspace.files!.find((fixture) => fixture.file === file)!)),
+        paging: { count, total: files.length, page: pageNumber, pages: Math.max(1, Math.ceil(files.length / count)) },
+      };
+    },
+
+    "files.getUploadURLExternal": (params) => {
+      const length = Number(params.length);
+      if (!params.filename || !Number.isInteger(length) || length <= 0) {
+        throw new SlackError("invalid_arguments");
+      }
+      const id = `FUPLOAD${String(++this.fileCounter).padStart(2, "0")}`;
+      this.uploads.set(id, { filename: params.filename, length, snippetType: params.snippet_type });
+      return { upload_url: `${this.origin}/upload/${id}`, file_id: id };
+    },
+
+    "files.completeUploadExternal": (params, context) => {
+      const requested: { id: string; title?: string }[] =
+        typeof params.files === "string" ? JSON.parse(params.files) : params.files;
+      const channel = params.channel_id ? this.writableChannel(params.channel_id, context) : undefined;
+      const created = Math.floor(Date.now() / 1000);
+      const completed = requested.map(({ id, title }) => {
+        const upload = this.uploads.get(id);
+        if (!upload?.content || upload.content.length !== upload.length) {
+          throw new SlackError("file_not_found");
+        }
+        this.uploads.delete(id);
+        const extension = upload.filename.split(".").pop();
+        const mimetype = (upload.snippetType || extension === "txt") ? "text/plain"
+          : extension === "md" ? "text/markdown"
+          : extension === "png" ? "image/png"
+          : "application/octet-stream";
+        const conversation = channel?.conversation;
+        const fixture: FixtureFile = {
+          file: {
+            id,
+            created,
+            timestamp: created,
+            name: upload.filename,
+            title: title ?? upload.filename,
+            mimetype,
+            filetype: upload.snippetType ?? extension,
+            user: context.userId,
+            mode: upload.snippetType ? "snippet" : "hosted",
+            size: upload.content.length,
+            channels: conversation && !conversation.is_private && !conversation.is_im ? [conversation.id] : [],
+            groups: conversation?.is_private ? [conversation.id] : [],
+            ims: conversation?.is_im ? [conversation.id] : [],
+          },
+          content: upload.content.toString("base64"),
+        };
+        (this.workspace.files ??= []).push(fixture);
+        return fixture.file;
+      });
+      if (channel) {
+        this.addMessage(
+          channel,
+          {
+            type: "message",
+            user: context.userId,
+            text: params.initial_comment ?? "",
+            ts: this.nextTs(),
+            files: completed.map(({ id, name, mimetype }) => ({ id, name, mimetype })),
+            upload: true,
+          },
+          params.thread_ts,
+        );
+      }
+      return { files: completed.map(({ id, title }) => ({ id, title })) };
+    },
+
+    "search.messages": (params, context) => {
+      const filters = parseSearchQuery(String(params.query ?? ""), this.workspace.users);
+      const matches = this.workspace.channels
+        .filter((channel) => channel.members.includes(context.userId))
+        .flatMap((channel) =>
+          channel.messages
+            .filter((message) => filters.every((filter) => filter(message, channel)))
+            .map((message): Record<string, any> => ({
+              ...message,
+              channel: { id: channel.conversation.id, name: channel.conversation.name ?? channel.conversation.user },
+              username: this.user(message.user).name,
+              permalink: `https://${this.workspace.team.domain}.slack.com/archives/${channel.conversation.id}/p${message.ts.replace(".", "")}`,
+            })),
+        )
+        .sort((a, b) =>
+          params.sort === "timestamp" && params.sort_dir === "asc"
+            ? parseFloat(a.ts) - parseFloat(b.ts)
+            : parseFloat(b.ts) - parseFloat(a.ts),
+        );
+      const { items, nextCursor } = page(matches, params, 20);
+      return {
+        query: params.query,
+        messages: {
+          total: matches.length,
+          matches: items,
+          pagination: { total_count: matches.length, next_cursor: nextCursor || undefined },
+        },
+      };
+    },
+  };
+}